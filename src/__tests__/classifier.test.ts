@@ -1,6 +1,6 @@
-import { classifyPattern } from '../classifier';
-import { SuspenseComponent, FunctionComponent } from '../constants';
-import type { FiberSnapshot } from '../types';
+import { classifyPattern, describeStateChanges } from '../classifier';
+import { SuspenseComponent, FunctionComponent, ClassComponent } from '../constants';
+import type { FiberSnapshot, UpdatesFiberInfo } from '../types';
 
 describe('classifyPattern', () => {
   test('returns lazy-in-render when Suspense fibers present', () => {
@@ -12,9 +12,12 @@ describe('classifyPattern', () => {
           tag: FunctionComponent,
           type: function X() {},
           ownerName: null,
+          componentPath: null,
+          reason: null,
           source: null,
           componentStack: null,
           effectSource: null,
+          lifecycleMethod: null,
         },
       ],
       withSuspense: [
@@ -23,10 +26,16 @@ describe('classifyPattern', () => {
           tag: SuspenseComponent,
           type: null,
           ownerName: null,
+          componentPath: null,
+          reason: null,
           resolvedName: null,
         },
       ],
       withUpdates: [],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [],
     };
     const result = classifyPattern(fibers);
     expect(result.pattern).toBe('lazy-in-render');
@@ -43,13 +52,20 @@ describe('classifyPattern', () => {
           tag: FunctionComponent,
           type: function Y() {},
           ownerName: null,
+          componentPath: null,
+          reason: null,
           source: null,
           componentStack: null,
           effectSource: null,
+          lifecycleMethod: null,
         },
       ],
       withSuspense: [],
       withUpdates: [],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [],
     };
     const result = classifyPattern(fibers);
     expect(result.pattern).toBe('setState-in-layout-effect');
@@ -68,9 +84,17 @@ describe('classifyPattern', () => {
           tag: FunctionComponent,
           type: function Z() {},
           ownerName: null,
+          componentPath: null,
+          reason: null,
           lanes: 1,
+          componentName: null,
+          changedHooks: [],
         },
       ],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [],
     };
     const result = classifyPattern(fibers);
     expect(result.pattern).toBe('setState-outside-react');
@@ -79,6 +103,35 @@ describe('classifyPattern', () => {
     expect(result.evidence).toMatch(/batching/i);
   });
 
+  test('names the changed hooks of setState-outside-react suspects', () => {
+    const fibers: FiberSnapshot = {
+      withPassiveEffects: [],
+      withLayoutEffects: [],
+      withSuspense: [],
+      withUpdates: [
+        {
+          componentId: null,
+          tag: FunctionComponent,
+          type: function Header() {},
+          ownerName: null,
+          componentPath: null,
+          reason: null,
+          lanes: 1,
+          componentName: 'Header',
+          changedHooks: [{ index: 2, kind: 'state' }],
+        },
+      ],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [],
+    };
+    const result = classifyPattern(fibers);
+    expect(result.evidence).toBe(
+      'Multiple commits in same task without React batching (Header: useState #2 changed)'
+    );
+  });
+
   test('lazy-in-render takes priority over layout effects', () => {
     const fibers: FiberSnapshot = {
       withPassiveEffects: [],
@@ -88,9 +141,12 @@ describe('classifyPattern', () => {
           tag: FunctionComponent,
           type: function A() {},
           ownerName: null,
+          componentPath: null,
+          reason: null,
           source: null,
           componentStack: null,
           effectSource: null,
+          lifecycleMethod: null,
         },
       ],
       withSuspense: [
@@ -99,6 +155,8 @@ describe('classifyPattern', () => {
           tag: SuspenseComponent,
           type: null,
           ownerName: null,
+          componentPath: null,
+          reason: null,
           resolvedName: null,
         },
       ],
@@ -108,9 +166,17 @@ describe('classifyPattern', () => {
           tag: FunctionComponent,
           type: function B() {},
           ownerName: null,
+          componentPath: null,
+          reason: null,
           lanes: 1,
+          componentName: null,
+          changedHooks: [],
         },
       ],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [],
     };
     const result = classifyPattern(fibers);
     expect(result.pattern).toBe('lazy-in-render');
@@ -125,9 +191,12 @@ describe('classifyPattern', () => {
           tag: FunctionComponent,
           type: function C() {},
           ownerName: null,
+          componentPath: null,
+          reason: null,
           source: null,
           componentStack: null,
           effectSource: null,
+          lifecycleMethod: null,
         },
       ],
       withSuspense: [],
@@ -137,11 +206,148 @@ describe('classifyPattern', () => {
           tag: FunctionComponent,
           type: function D() {},
           ownerName: null,
+          componentPath: null,
+          reason: null,
           lanes: 1,
+          componentName: null,
+          changedHooks: [],
         },
       ],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [],
     };
     const result = classifyPattern(fibers);
     expect(result.pattern).toBe('setState-in-layout-effect');
   });
+
+  test('returns unstable-external-store-snapshot naming the component and hook', () => {
+    const fibers: FiberSnapshot = {
+      withPassiveEffects: [],
+      withLayoutEffects: [],
+      withSuspense: [],
+      withUpdates: [],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [
+        {
+          componentId: null,
+          tag: FunctionComponent,
+          type: function Widget() {},
+          ownerName: 'App',
+          componentPath: null,
+          reason: null,
+          componentName: 'Widget',
+          hookIndex: 2,
+        },
+      ],
+    };
+    const result = classifyPattern(fibers);
+    expect(result.pattern).toBe('unstable-external-store-snapshot');
+    expect(result.suspects).toBe(fibers.withUnstableStoreSnapshots);
+    expect(result.evidence).toMatch(/Widget hook #2/);
+  });
+
+  test('returns setState-in-lifecycle naming the class lifecycle', () => {
+    const fibers: FiberSnapshot = {
+      withPassiveEffects: [],
+      withLayoutEffects: [
+        {
+          componentId: null,
+          tag: ClassComponent,
+          type: function Legacy() {},
+          ownerName: null,
+          componentPath: null,
+          reason: null,
+          source: null,
+          componentStack: null,
+          effectSource: 'componentDidUpdate() { this.setState({}); }',
+          lifecycleMethod: 'componentDidUpdate',
+        },
+      ],
+      withSuspense: [],
+      withUpdates: [],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [],
+    };
+    const result = classifyPattern(fibers);
+    expect(result.pattern).toBe('setState-in-lifecycle');
+    expect(result.suspects).toEqual(fibers.withLayoutEffects);
+    expect(result.evidence).toBe('componentDidUpdate triggered state update');
+  });
+
+  test('hook layout effects take priority over class lifecycles', () => {
+    const fibers: FiberSnapshot = {
+      withPassiveEffects: [],
+      withLayoutEffects: [
+        {
+          componentId: null,
+          tag: ClassComponent,
+          type: function Legacy() {},
+          ownerName: null,
+          componentPath: null,
+          reason: null,
+          source: null,
+          componentStack: null,
+          effectSource: 'componentDidMount() {}',
+          lifecycleMethod: 'componentDidMount',
+        },
+        {
+          componentId: null,
+          tag: FunctionComponent,
+          type: function Modern() {},
+          ownerName: null,
+          componentPath: null,
+          reason: null,
+          source: null,
+          componentStack: null,
+          effectSource: '() => setWidth(1)',
+          lifecycleMethod: null,
+        },
+      ],
+      withSuspense: [],
+      withUpdates: [],
+      withErrorBoundaries: [],
+      withUnstableContextValues: [],
+      partial: false,
+      withUnstableStoreSnapshots: [],
+    };
+    const result = classifyPattern(fibers);
+    expect(result.pattern).toBe('setState-in-layout-effect');
+    expect(result.suspects).toEqual([fibers.withLayoutEffects[1]]);
+  });
+});
+
+describe('describeStateChanges', () => {
+  function updated(componentName: string | null, changedHooks: UpdatesFiberInfo['changedHooks']): UpdatesFiberInfo {
+    return {
+      componentId: null,
+      tag: FunctionComponent,
+      type: null,
+      ownerName: null,
+      componentPath: null,
+      reason: null,
+      lanes: 1,
+      componentName,
+      changedHooks,
+    };
+  }
+
+  test('lists every changed hook per component', () => {
+    expect(describeStateChanges([
+      updated('Header', [{ index: 0, kind: 'reducer' }, { index: 3, kind: 'memo' }]),
+      updated(null, [{ index: 1, kind: 'external-store' }]),
+    ])).toBe(
+      'Header: useReducer #0, useMemo #3 changed; Anonymous: useSyncExternalStore #1 changed'
+    );
+  });
+
+  test('returns null when no hook change was identified', () => {
+    expect(describeStateChanges([updated('Header', [])])).toBeNull();
+    expect(describeStateChanges([])).toBeNull();
+  });
 });
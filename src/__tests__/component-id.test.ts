@@ -0,0 +1,163 @@
+import { injectComponentIds, createComponentId, shouldTransform, stripQuery } from '../component-id';
+import { componentIds } from '../vite-plugin';
+import componentIdLoader from '../webpack-loader';
+
+const ROOT = '/app';
+
+// Evaluates the transformed module body and returns the named bindings
+function evaluate(code: string, names: string[]): Record<string, { __componentId?: unknown }> {
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval
+  return new Function(`${code}\nreturn { ${names.join(', ')} };`)();
+}
+
+describe('injectComponentIds', () => {
+  test('stamps function, arrow and class components with file and line', () => {
+    const code = [
+      'function Header() { return null; }',
+      'const Menu = () => null;',
+      'class Sidebar extends React.Component { render() { return null; } }',
+    ].join('\n');
+    const result = injectComponentIds(code, '/app/src/Layout.jsx', { root: ROOT })!;
+
+    const React = { Component: class {} };
+    const { Header, Menu, Sidebar } = new Function('React', `${result}\nreturn { Header, Menu, Sidebar };`)(React);
+    expect(Header.__componentId).toBe('src/Layout.jsx:1');
+    expect(Menu.__componentId).toBe('src/Layout.jsx:2');
+    expect(Sidebar.__componentId).toBe('src/Layout.jsx:3');
+  });
+
+  test('stamps memo and forwardRef results', () => {
+    const code = [
+      'const memo = (c) => ({ type: c });',
+      'const Row = memo(function Row() { return null; });',
+      'const Input = React.forwardRef((props, ref) => null);',
+    ].join('\n');
+    const result = injectComponentIds(code, '/app/src/List.jsx', { root: ROOT })!;
+    const React = { forwardRef: (render: unknown) => ({ render }) };
+    const { Row, Input } = new Function('React', `${result}\nreturn { Row, Input };`)(React);
+    expect(Row.__componentId).toBe('src/List.jsx:2');
+    expect(Input.__componentId).toBe('src/List.jsx:3');
+    // The functions their fibers render
+    expect(Row.type.__componentId).toBe('src/List.jsx:2');
+    expect(Input.render.__componentId).toBe('src/List.jsx:3');
+  });
+
+  test('keeps the id of a component declared apart from its memo()', () => {
+    const code = [
+      'const memo = (c) => ({ type: c });',
+      'const forwardRef = (render) => ({ render });',
+      'const Fancy = memo(forwardRef(Field));',
+      'function Field() { return null; }',
+      'const Cell = memo(function Cell() { return null; });',
+    ].join('\n');
+    const { Fancy, Field, Cell } = evaluate(injectComponentIds(code, '/app/src/Form.jsx', { root: ROOT })!, [
+      'Fancy',
+      'Field',
+      'Cell',
+    ]) as Record<string, { __componentId?: unknown; type: { __componentId?: unknown } }>;
+    expect(Fancy.type.__componentId).toBe('src/Form.jsx:3');
+    expect(Field.__componentId).toBe('src/Form.jsx:4');
+    expect(Cell.type.__componentId).toBe('src/Form.jsx:5');
+  });
+
+  test('parses TSX with types and exports', () => {
+    const code = [
+      'interface Props { label: string }',
+      'export default function Button({ label }: Props) {',
+      '  return <button>{label}</button>;',
+      '}',
+      'export const Icon: React.FC = () => <svg />;',
+    ].join('\n');
+    const result = injectComponentIds(code, '/app/src/Button.tsx', { root: ROOT })!;
+    expect(result).toContain('Object.defineProperty(Button, "__componentId", { value: "src/Button.tsx:2", configurable: true });');
+    expect(result).toContain('Object.defineProperty(Icon, "__componentId", { value: "src/Button.tsx:5", configurable: true });');
+  });
+
+  test('leaves the original code and its line numbers untouched', () => {
+    const code = 'export function App() {\n  return null;\n}';
+    const result = injectComponentIds(code, '/app/src/App.jsx', { root: ROOT })!;
+    expect(result.startsWith(`${code}\n`)).toBe(true);
+  });
+
+  test('ignores non-components', () => {
+    const code = [
+      'function useToggle() {}',
+      'const helper = () => null;',
+      'const Theme = createContext(null);',
+      'class Store {}',
+      'declare function Ambient(): void;',
+      'function App() { function Inner() { return null; } return null; }',
+    ].join('\n');
+    const result = injectComponentIds(code, '/app/src/misc.ts', { root: ROOT })!;
+    const stamped = [...result.matchAll(/defineProperty\((\w+), "__componentId", \{ value: "([^"]+)"/g)]
+      .map((match) => `${match[1]} ${match[2]}`);
+    expect(stamped).toEqual(['App src/misc.ts:6']);
+  });
+
+  test('returns null for modules without components', () => {
+    expect(injectComponentIds('export const x = 1;', '/app/src/x.js', { root: ROOT })).toBeNull();
+  });
+
+  test('evaluates as a plain module body', () => {
+    const result = injectComponentIds('function Card() { return null; }', '/app/src/Card.js', { root: ROOT })!;
+    expect(evaluate(result, ['Card']).Card.__componentId).toBe('src/Card.js:1');
+  });
+});
+
+describe('createComponentId', () => {
+  test('is relative to the root with forward slashes', () => {
+    expect(createComponentId('/app/src/deep/Menu.tsx', 12, ROOT)).toBe('src/deep/Menu.tsx:12');
+  });
+});
+
+describe('shouldTransform', () => {
+  test('includes script files outside node_modules by default', () => {
+    expect(shouldTransform('/app/src/App.tsx')).toBe(true);
+    expect(shouldTransform('/app/src/styles.css')).toBe(false);
+    expect(shouldTransform('/app/node_modules/lib/index.js')).toBe(false);
+  });
+
+  test('honors include and exclude', () => {
+    expect(shouldTransform('/app/src/App.tsx', { include: /\.jsx$/ })).toBe(false);
+    expect(shouldTransform('/app/src/App.test.tsx', { exclude: /\.test\./ })).toBe(false);
+  });
+});
+
+describe('stripQuery', () => {
+  test('removes bundler queries', () => {
+    expect(stripQuery('/app/src/App.tsx?v=123')).toBe('/app/src/App.tsx');
+    expect(stripQuery('/app/src/App.tsx')).toBe('/app/src/App.tsx');
+  });
+});
+
+describe('componentIds (Vite)', () => {
+  test('uses the resolved Vite root and strips queries', () => {
+    const plugin = componentIds();
+    plugin.configResolved({ root: ROOT });
+    const result = plugin.transform('function App() { return null; }', '/app/src/App.jsx?v=1');
+    expect(result?.code).toContain('"src/App.jsx:1"');
+    expect(result?.map).toBeNull();
+  });
+
+  test('skips excluded and component-free modules', () => {
+    const plugin = componentIds();
+    plugin.configResolved({ root: ROOT });
+    expect(plugin.transform('function App() {}', '/app/node_modules/x/App.js')).toBeNull();
+    expect(plugin.transform('export const x = 1;', '/app/src/x.js')).toBeNull();
+  });
+});
+
+describe('componentIdLoader (webpack)', () => {
+  test('uses the webpack context and loader options', () => {
+    const context = { resourcePath: '/app/src/App.jsx', rootContext: ROOT };
+    expect(componentIdLoader.call(context, 'function App() { return null; }')).toContain('"src/App.jsx:1"');
+
+    const withRoot = { ...context, getOptions: () => ({ root: '/app/src' }) };
+    expect(componentIdLoader.call(withRoot, 'function App() { return null; }')).toContain('"App.jsx:1"');
+  });
+
+  test('passes through modules it does not transform', () => {
+    const context = { resourcePath: '/app/src/x.js', rootContext: ROOT };
+    expect(componentIdLoader.call(context, 'export const x = 1;')).toBe('export const x = 1;');
+  });
+});
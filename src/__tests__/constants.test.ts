@@ -1,6 +1,7 @@
 import {
   FunctionComponent,
   ClassComponent,
+  ContextProvider,
   SuspenseComponent,
   OffscreenComponent,
   Placement,
@@ -18,6 +19,7 @@ describe('constants', () => {
   test('fiber tags are correct numeric values', () => {
     expect(FunctionComponent).toBe(0);
     expect(ClassComponent).toBe(1);
+    expect(ContextProvider).toBe(10);
     expect(SuspenseComponent).toBe(13);
     expect(OffscreenComponent).toBe(22);
   });
@@ -37,11 +39,11 @@ describe('constants', () => {
   });
 
   test('DidCapture flag value', () => {
-    expect(DidCapture).toBe(0b00000000000000010000000000);
+    expect(DidCapture).toBe(0b00000000000000000010000000);
   });
 
   test('Placement flag value', () => {
-    expect(Placement).toBe(1);
+    expect(Placement).toBe(2);
   });
 
   test('Visibility flag value', () => {
@@ -0,0 +1,82 @@
+import { MessageChannel } from 'worker_threads';
+import { createDetector } from '../detector';
+import { FunctionComponent, Passive, PerformedWork } from '../constants';
+import type { Fiber, FiberRoot } from '../types';
+
+// jsdom does not provide MessageChannel; expose Node's built-in implementation
+if (typeof globalThis.MessageChannel === 'undefined') {
+  globalThis.MessageChannel = MessageChannel as unknown as typeof globalThis.MessageChannel;
+}
+
+// Steady-state overhead of handleCommit on a tree of TREE_WIDTH² fibers.
+// Not a micro-benchmark: it compares the lone-commit path, which should only
+// touch the root, with the cascade path, which walks the whole tree.
+const TREE_WIDTH = 70;
+const COMMITS = 100;
+
+function makeFiber(overrides: Partial<Fiber> = {}): Fiber {
+  return {
+    tag: FunctionComponent,
+    type: function Row() {},
+    flags: PerformedWork | Passive,
+    subtreeFlags: PerformedWork | Passive,
+    lanes: 0,
+    childLanes: 0,
+    child: null,
+    sibling: null,
+    ...overrides,
+  };
+}
+
+function makeWideTree(): Fiber {
+  let rows: Fiber | null = null;
+  for (let i = 0; i < TREE_WIDTH; i++) {
+    let cells: Fiber | null = null;
+    for (let j = 0; j < TREE_WIDTH; j++) {
+      cells = makeFiber({ sibling: cells });
+    }
+    rows = makeFiber({ child: cells, sibling: rows });
+  }
+  return makeFiber({ type: function App() {}, child: rows });
+}
+
+function makeRoot(current: Fiber): FiberRoot {
+  return { current, pendingLanes: 0, callbackPriority: 0, callbackNode: null };
+}
+
+function msPerCommit(commit: () => void): number {
+  const start = performance.now();
+  for (let i = 0; i < COMMITS; i++) {
+    commit();
+  }
+  return (performance.now() - start) / COMMITS;
+}
+
+describe('handleCommit overhead', () => {
+  test('lone commits skip the walk that cascading commits pay for', () => {
+    const tree = makeWideTree();
+    const config = {
+      onFlush: () => {},
+      sampleRate: 1.0,
+      maxCommitsPerTask: Infinity,
+      maxCommitsPerWindow: COMMITS * 2,
+      breakOnLoop: false,
+    };
+
+    // A fresh root per commit: each one is the first commit of its root in
+    // this task, which is what a one-commit task looks like to the detector.
+    const lone = createDetector(config);
+    const loneMs = msPerCommit(() => lone.handleCommit(makeRoot(tree)));
+
+    // One root committing repeatedly in the task: every commit is a
+    // plausible cascade and gets a stack and a full snapshot.
+    const cascading = createDetector(config);
+    const root = makeRoot(tree);
+    const cascadeMs = msPerCommit(() => cascading.handleCommit(root));
+
+    lone.dispose();
+    cascading.dispose();
+
+    expect(loneMs * 5).toBeLessThan(cascadeMs);
+  });
+});
@@ -6,12 +6,19 @@ if (typeof globalThis.MessageChannel === 'undefined') {
 }
 
 import { createDetector } from '../detector';
+import { injectComponentIds } from '../component-id';
 import {
   FunctionComponent,
+  ClassComponent,
+  ContextProvider,
+  ForwardRef,
+  SimpleMemoComponent,
   SuspenseComponent,
   Passive,
   LayoutMask,
   DidCapture,
+  PerformedWork,
+  SyncLane,
 } from '../constants';
 import type { Fiber, FiberRoot, Detector, FlushReport, LoopReport } from '../types';
 
@@ -29,7 +36,14 @@ function makeFiber(overrides: Partial<Fiber> = {}): Fiber {
   };
 }
 
-function makeRoot(fiber: Fiber): FiberRoot {
+// Detector state is keyed by FiberRoot identity, so successive commits on the
+// same root pass the existing root back in to have its tree replaced.
+function makeRoot(fiber: Fiber, root?: FiberRoot): FiberRoot {
+  if (root) {
+    root.current = fiber;
+    root.pendingLanes = 0;
+    return root;
+  }
   return {
     current: fiber,
     pendingLanes: 0,
@@ -39,15 +53,15 @@ function makeRoot(fiber: Fiber): FiberRoot {
 }
 
 // Root with a fiber that has layout effects (triggers setState-in-layout-effect)
-function makeLayoutEffectRoot(): FiberRoot {
+function makeLayoutEffectRoot(root?: FiberRoot): FiberRoot {
   const child = makeFiber({ flags: LayoutMask });
-  return makeRoot(makeFiber({ subtreeFlags: LayoutMask, child }));
+  return makeRoot(makeFiber({ subtreeFlags: LayoutMask, child }), root);
 }
 
 // Root with a fiber that has passive effects
-function makePassiveEffectRoot(): FiberRoot {
+function makePassiveEffectRoot(root?: FiberRoot): FiberRoot {
   const child = makeFiber({ flags: Passive });
-  return makeRoot(makeFiber({ subtreeFlags: Passive, child }));
+  return makeRoot(makeFiber({ subtreeFlags: Passive, child }), root);
 }
 
 describe('createDetector', () => {
@@ -86,13 +100,13 @@ describe('createDetector', () => {
     let now = 100;
     performance.now = () => now;
 
-    const root1 = makeLayoutEffectRoot();
-    root1.pendingLanes = 1; // SyncLane — predicts cascade
-    detector.handleCommit(root1);
+    const root = makeLayoutEffectRoot();
+    root.pendingLanes = 1; // SyncLane — predicts cascade
+    detector.handleCommit(root);
 
     now = 105;
-    const root2 = makePassiveEffectRoot();
-    detector.handleCommit(root2);
+    makePassiveEffectRoot(root);
+    detector.handleCommit(root);
 
     expect(onFlush).toHaveBeenCalledTimes(1);
     const report = onFlush.mock.calls[0][0] as FlushReport;
@@ -115,15 +129,15 @@ describe('createDetector', () => {
     // Models a 3-commit cascade: A→B→C. Root 1 and 2 have pendingLanes=1
     // (SyncLane), predicting cascades. Only one report should fire — for
     // the root cause (commit A's snapshot).
-    const root1 = makeLayoutEffectRoot();
-    root1.pendingLanes = 1; // predicts cascade → commit B
-    detector.handleCommit(root1);
+    const root = makeLayoutEffectRoot();
+    root.pendingLanes = 1; // predicts cascade → commit B
+    detector.handleCommit(root);
     now = 105;
-    const root2 = makeLayoutEffectRoot();
-    root2.pendingLanes = 1; // chain continues → commit C
-    detector.handleCommit(root2);
+    makeLayoutEffectRoot(root);
+    root.pendingLanes = 1; // chain continues → commit C
+    detector.handleCommit(root);
     now = 110;
-    detector.handleCommit(makeLayoutEffectRoot()); // pendingLanes=0, chain ends
+    detector.handleCommit(makeLayoutEffectRoot(root)); // pendingLanes=0, chain ends
 
     expect(onFlush).toHaveBeenCalledTimes(1);
     // Report uses origin (commit A) snapshot
@@ -134,13 +148,14 @@ describe('createDetector', () => {
   test('resets state after task boundary', (done) => {
     const onFlush = jest.fn();
     const detector = tracked({ onFlush, sampleRate: 1.0 });
+    const root = makeRoot(makeFiber());
 
-    detector.handleCommit(makeLayoutEffectRoot());
+    detector.handleCommit(makeLayoutEffectRoot(root));
 
     // Wait for MessageChannel to fire (next task).
     setTimeout(() => {
       setTimeout(() => {
-        detector.handleCommit(makeLayoutEffectRoot());
+        detector.handleCommit(makeLayoutEffectRoot(root));
         // Second commit is in a new task, should not trigger detection
         expect(onFlush).not.toHaveBeenCalled();
         done();
@@ -151,29 +166,32 @@ describe('createDetector', () => {
   test('respects sampleRate of 0 (never samples)', () => {
     const onFlush = jest.fn();
     const detector = tracked({ onFlush, sampleRate: 0 });
+    const root = makeRoot(makeFiber());
 
-    detector.handleCommit(makeLayoutEffectRoot());
-    detector.handleCommit(makePassiveEffectRoot());
+    detector.handleCommit(makeLayoutEffectRoot(root));
+    detector.handleCommit(makePassiveEffectRoot(root));
 
     expect(onFlush).not.toHaveBeenCalled();
   });
 
   test('works without onFlush callback', () => {
     const detector = tracked({ sampleRate: 1.0 });
+    const root = makeRoot(makeFiber());
 
     // Should not throw
-    detector.handleCommit(makeLayoutEffectRoot());
-    detector.handleCommit(makePassiveEffectRoot());
+    detector.handleCommit(makeLayoutEffectRoot(root));
+    detector.handleCommit(makePassiveEffectRoot(root));
   });
 
   test('fires setState-in-observer for same-task commits without layout effects or flushSync', () => {
     const onFlush = jest.fn();
     const detector = tracked({ onFlush, sampleRate: 1.0 });
+    const root = makeRoot(makeFiber());
 
     // Two passive-effect roots — classified as setState-outside-react,
     // no flushSync in the call stack → reports setState-in-observer
-    detector.handleCommit(makePassiveEffectRoot());
-    detector.handleCommit(makePassiveEffectRoot());
+    detector.handleCommit(makePassiveEffectRoot(root));
+    detector.handleCommit(makePassiveEffectRoot(root));
 
     expect(onFlush).toHaveBeenCalledTimes(1);
     const report = onFlush.mock.calls[0][0] as FlushReport;
@@ -184,10 +202,11 @@ describe('createDetector', () => {
   test('fires with flushSync pattern when flushSync is in the call stack', () => {
     const onFlush = jest.fn();
     const detector = tracked({ onFlush, sampleRate: 1.0 });
+    const root = makeRoot(makeFiber());
 
     // Wrap in a function named flushSync so it appears in Error().stack
     function flushSync() {
-      detector.handleCommit(makePassiveEffectRoot());
+      detector.handleCommit(makePassiveEffectRoot(root));
     }
 
     flushSync(); // commit 1 — stack contains "flushSync"
@@ -199,6 +218,59 @@ describe('createDetector', () => {
     expect(report.evidence).toBe('flushSync caused synchronous re-render');
   });
 
+  describe('frame filtering', () => {
+    function commitTwice(detector: Detector): void {
+      const root = makeRoot(makeFiber());
+      detector.handleCommit(makePassiveEffectRoot(root));
+      detector.handleCommit(makePassiveEffectRoot(root));
+    }
+
+    test('reports the whole user stack, starting at userFrame', () => {
+      const onFlush = jest.fn();
+      commitTwice(tracked({ onFlush, sampleRate: 1.0 }));
+
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.userStack.length).toBeGreaterThan(1);
+      expect(report.userFrame).toEqual({
+        fileName: report.userStack[0].fileName,
+        lineNumber: report.userStack[0].lineNumber,
+        columnNumber: report.userStack[0].columnNumber,
+      });
+    });
+
+    test('excludeFrames drops matching frames from userFrame and userStack', () => {
+      const onFlush = jest.fn();
+      // The observer's own source files, which the defaults only skip once installed from node_modules
+      const ownSources = /src[\\/](detector|overhead)\.ts$/;
+      commitTwice(tracked({ onFlush, sampleRate: 1.0, excludeFrames: [ownSources] }));
+
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.userFrame?.fileName).toMatch(/detector\.test\.ts$/);
+      expect(report.userStack.some((frame) => ownSources.test(frame.fileName!))).toBe(false);
+    });
+
+    test('firstPartyPaths keeps only frames under the given paths', () => {
+      const onFlush = jest.fn();
+      commitTwice(tracked({ onFlush, sampleRate: 1.0, firstPartyPaths: ['__tests__'] }));
+
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.userStack.length).toBeGreaterThan(0);
+      expect(report.userStack.every((frame) => frame.fileName!.includes('__tests__'))).toBe(true);
+    });
+
+    test('includeFrames predicates admit frames the defaults would skip', () => {
+      const onFlush = jest.fn();
+      commitTwice(tracked({
+        onFlush,
+        sampleRate: 1.0,
+        includeFrames: [(frame) => frame.fileName?.includes('node_modules') ?? false],
+      }));
+
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.userStack.some((frame) => frame.fileName!.includes('node_modules'))).toBe(true);
+    });
+  });
+
   test('classifies Suspense pattern correctly', () => {
     const onFlush = jest.fn();
     const detector = tracked({ onFlush, sampleRate: 1.0 });
@@ -207,12 +279,12 @@ describe('createDetector', () => {
       tag: SuspenseComponent,
       flags: DidCapture,
     });
-    const suspenseRoot = makeRoot(
+    const root = makeRoot(
       makeFiber({ subtreeFlags: DidCapture, child: suspenseChild })
     );
 
-    detector.handleCommit(suspenseRoot);
-    detector.handleCommit(makePassiveEffectRoot());
+    detector.handleCommit(root);
+    detector.handleCommit(makePassiveEffectRoot(root));
 
     expect(onFlush).toHaveBeenCalledTimes(1);
     expect(
@@ -220,15 +292,43 @@ describe('createDetector', () => {
     ).toBe('lazy-in-render');
   });
 
+  test('classifies an unstable useSyncExternalStore snapshot', () => {
+    const onFlush = jest.fn();
+    const detector = tracked({ onFlush, sampleRate: 1.0 });
+
+    const getSnapshot = () => ({ data: 'fresh' });
+    const makeHook = () => ({
+      memoizedState: getSnapshot(),
+      queue: { value: getSnapshot(), getSnapshot },
+      next: null,
+    });
+    const Widget = function Widget() {};
+    const child = makeFiber({
+      type: Widget,
+      flags: PerformedWork,
+      memoizedState: makeHook(),
+      alternate: makeFiber({ type: Widget, memoizedState: makeHook() }),
+    });
+    const root = makeRoot(makeFiber({ child }));
+
+    detector.handleCommit(root);
+    detector.handleCommit(makePassiveEffectRoot(root));
+
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    const report = onFlush.mock.calls[0][0] as FlushReport;
+    expect(report.pattern).toBe('unstable-external-store-snapshot');
+    expect(report.suspects[0].type).toBe(Widget);
+  });
+
   describe('pendingLanes-based cascade detection', () => {
     test('two-commit cascade with pendingLanes prediction fires 1 report', () => {
       const onFlush = jest.fn();
       const detector = tracked({ onFlush, sampleRate: 1.0 });
 
-      const root1 = makeLayoutEffectRoot();
-      root1.pendingLanes = 1; // SyncLane — predicts cascade
-      detector.handleCommit(root1);
-      detector.handleCommit(makePassiveEffectRoot()); // cascade commit
+      const root = makeLayoutEffectRoot();
+      root.pendingLanes = 1; // SyncLane — predicts cascade
+      detector.handleCommit(root);
+      detector.handleCommit(makePassiveEffectRoot(root)); // cascade commit
 
       expect(onFlush).toHaveBeenCalledTimes(1);
       const report = onFlush.mock.calls[0][0] as FlushReport;
@@ -239,15 +339,15 @@ describe('createDetector', () => {
       const onFlush = jest.fn();
       const detector = tracked({ onFlush, sampleRate: 1.0 });
 
-      const root1 = makeLayoutEffectRoot();
-      root1.pendingLanes = 1;
-      detector.handleCommit(root1);
+      const root = makeLayoutEffectRoot();
+      root.pendingLanes = 1;
+      detector.handleCommit(root);
 
-      const root2 = makeLayoutEffectRoot();
-      root2.pendingLanes = 1; // chain continues
-      detector.handleCommit(root2);
+      makeLayoutEffectRoot(root);
+      root.pendingLanes = 1; // chain continues
+      detector.handleCommit(root);
 
-      detector.handleCommit(makeLayoutEffectRoot()); // chain ends
+      detector.handleCommit(makeLayoutEffectRoot(root)); // chain ends
 
       expect(onFlush).toHaveBeenCalledTimes(1);
     });
@@ -257,16 +357,16 @@ describe('createDetector', () => {
       const detector = tracked({ onFlush, sampleRate: 1.0 });
 
       // First cascade: A→B
-      const rootA = makeLayoutEffectRoot();
-      rootA.pendingLanes = 1;
-      detector.handleCommit(rootA);
-      detector.handleCommit(makePassiveEffectRoot()); // cascade commit, pendingLanes=0
+      const root = makeLayoutEffectRoot();
+      root.pendingLanes = 1;
+      detector.handleCommit(root);
+      detector.handleCommit(makePassiveEffectRoot(root)); // cascade commit, pendingLanes=0
 
       // Second cascade: C→D
-      const rootC = makeLayoutEffectRoot();
-      rootC.pendingLanes = 1;
-      detector.handleCommit(rootC);
-      detector.handleCommit(makePassiveEffectRoot()); // cascade commit
+      makeLayoutEffectRoot(root);
+      root.pendingLanes = 1;
+      detector.handleCommit(root);
+      detector.handleCommit(makePassiveEffectRoot(root)); // cascade commit
 
       expect(onFlush).toHaveBeenCalledTimes(2);
     });
@@ -276,15 +376,15 @@ describe('createDetector', () => {
       const detector = tracked({ onFlush, sampleRate: 1.0 });
 
       // Start a cascade prediction in first task
-      const root1 = makeLayoutEffectRoot();
-      root1.pendingLanes = 1;
-      detector.handleCommit(root1);
+      const root = makeLayoutEffectRoot();
+      root.pendingLanes = 1;
+      detector.handleCommit(root);
 
       // Wait for task boundary
       setTimeout(() => {
         setTimeout(() => {
           // Commit in new task — cascade state should be reset
-          detector.handleCommit(makePassiveEffectRoot());
+          detector.handleCommit(makePassiveEffectRoot(root));
           expect(onFlush).not.toHaveBeenCalled();
           done();
         }, 0);
@@ -296,12 +396,12 @@ describe('createDetector', () => {
       const detector = tracked({ onFlush, sampleRate: 1.0 });
 
       // Origin commit has 1 layout effect fiber
-      const root1 = makeLayoutEffectRoot();
-      root1.pendingLanes = 1;
-      detector.handleCommit(root1);
+      const root = makeLayoutEffectRoot();
+      root.pendingLanes = 1;
+      detector.handleCommit(root);
 
       // Cascade commit has only passive effects (no layout effects)
-      detector.handleCommit(makePassiveEffectRoot());
+      detector.handleCommit(makePassiveEffectRoot(root));
 
       expect(onFlush).toHaveBeenCalledTimes(1);
       const report = onFlush.mock.calls[0][0] as FlushReport;
@@ -314,12 +414,12 @@ describe('createDetector', () => {
       const detector = tracked({ onFlush, sampleRate: 1.0 });
 
       // Origin commit has layout effects but pendingLanes=0 (microtask-queued setState)
-      const root1 = makeLayoutEffectRoot();
+      const root = makeLayoutEffectRoot();
       // pendingLanes defaults to 0 — backward fallback path
-      detector.handleCommit(root1);
+      detector.handleCommit(root);
 
       // Cascade commit
-      detector.handleCommit(makePassiveEffectRoot());
+      detector.handleCommit(makePassiveEffectRoot(root));
 
       expect(onFlush).toHaveBeenCalledTimes(1);
       const report = onFlush.mock.calls[0][0] as FlushReport;
@@ -327,17 +427,44 @@ describe('createDetector', () => {
       expect(report.evidence).toBe('Microtask queued by layout effect called setState');
     });
 
+    test('reports setState-in-lifecycle for a class componentDidUpdate cascade', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+
+      class Legacy {
+        componentDidUpdate() {
+          /* this.setState({}); */
+        }
+      }
+      const child = makeFiber({
+        tag: ClassComponent,
+        type: Legacy,
+        flags: LayoutMask,
+        stateNode: new Legacy(),
+        alternate: makeFiber({ tag: ClassComponent, type: Legacy }),
+      });
+      const root = makeRoot(makeFiber({ subtreeFlags: LayoutMask, child }));
+      root.pendingLanes = 1;
+      detector.handleCommit(root);
+      detector.handleCommit(makePassiveEffectRoot(root));
+
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.pattern).toBe('setState-in-lifecycle');
+      expect(report.evidence).toBe('componentDidUpdate triggered state update');
+    });
+
     test('forward path still reports setState-in-layout-effect when pendingLanes=SyncLane', () => {
       const onFlush = jest.fn();
       const detector = tracked({ onFlush, sampleRate: 1.0 });
 
       // Origin commit has layout effects AND pendingLanes=1 (direct setState in layout effect)
-      const root1 = makeLayoutEffectRoot();
-      root1.pendingLanes = 1; // SyncLane — forward path
-      detector.handleCommit(root1);
+      const root = makeLayoutEffectRoot();
+      root.pendingLanes = 1; // SyncLane — forward path
+      detector.handleCommit(root);
 
       // Cascade commit
-      detector.handleCommit(makePassiveEffectRoot());
+      detector.handleCommit(makePassiveEffectRoot(root));
 
       expect(onFlush).toHaveBeenCalledTimes(1);
       const report = onFlush.mock.calls[0][0] as FlushReport;
@@ -347,10 +474,11 @@ describe('createDetector', () => {
     test('pendingLanes=0 on both roots and no flushSync fires setState-in-observer', () => {
       const onFlush = jest.fn();
       const detector = tracked({ onFlush, sampleRate: 1.0 });
+      const root = makeRoot(makeFiber());
 
       // Two passive-effect roots with no pendingLanes and no flushSync
-      detector.handleCommit(makePassiveEffectRoot());
-      detector.handleCommit(makePassiveEffectRoot());
+      detector.handleCommit(makePassiveEffectRoot(root));
+      detector.handleCommit(makePassiveEffectRoot(root));
 
       expect(onFlush).toHaveBeenCalledTimes(1);
       const report = onFlush.mock.calls[0][0] as FlushReport;
@@ -362,10 +490,11 @@ describe('createDetector', () => {
     test('enriches evidence when ResizeObserver appears in call stack', () => {
       const onFlush = jest.fn();
       const detector = tracked({ onFlush, sampleRate: 1.0 });
+      const root = makeRoot(makeFiber());
 
       // Wrap in a function named ResizeObserver so it appears in Error().stack
       function ResizeObserver() {
-        detector.handleCommit(makePassiveEffectRoot());
+        detector.handleCommit(makePassiveEffectRoot(root));
       }
 
       ResizeObserver(); // commit 1 — stack contains "ResizeObserver"
@@ -380,9 +509,10 @@ describe('createDetector', () => {
     test('generic evidence when no observer name in stack', () => {
       const onFlush = jest.fn();
       const detector = tracked({ onFlush, sampleRate: 1.0 });
+      const root = makeRoot(makeFiber());
 
-      detector.handleCommit(makePassiveEffectRoot());
-      detector.handleCommit(makePassiveEffectRoot());
+      detector.handleCommit(makePassiveEffectRoot(root));
+      detector.handleCommit(makePassiveEffectRoot(root));
 
       expect(onFlush).toHaveBeenCalledTimes(1);
       const report = onFlush.mock.calls[0][0] as FlushReport;
@@ -393,9 +523,10 @@ describe('createDetector', () => {
     test('enriches evidence when MutationObserver appears in call stack', () => {
       const onFlush = jest.fn();
       const detector = tracked({ onFlush, sampleRate: 1.0 });
+      const root = makeRoot(makeFiber());
 
       function MutationObserver() {
-        detector.handleCommit(makePassiveEffectRoot());
+        detector.handleCommit(makePassiveEffectRoot(root));
       }
 
       MutationObserver();
@@ -410,11 +541,12 @@ describe('createDetector', () => {
     test('flushSync takes priority over observer detection', () => {
       const onFlush = jest.fn();
       const detector = tracked({ onFlush, sampleRate: 1.0 });
+      const root = makeRoot(makeFiber());
 
       // Both flushSync and ResizeObserver in the call stack
       function ResizeObserver() {
         function flushSync() {
-          detector.handleCommit(makePassiveEffectRoot());
+          detector.handleCommit(makePassiveEffectRoot(root));
         }
         flushSync();
       }
@@ -521,13 +653,14 @@ describe('createDetector', () => {
         maxCommitsPerTask: 3,
         breakOnLoop: true,
       });
+      const root = makeRoot(makeFiber());
 
       let now = 100;
       performance.now = () => now;
 
       for (let i = 0; i < 5; i++) {
         now += 1;
-        detector.handleCommit(makeLayoutEffectRoot());
+        detector.handleCommit(makeLayoutEffectRoot(root));
       }
 
       // Not called synchronously for loop detection
@@ -614,13 +747,14 @@ describe('createDetector', () => {
         maxCommitsPerTask: 3,
         breakOnLoop: false,
       });
+      const root = makeRoot(makeFiber());
 
       let now = 100;
       performance.now = () => now;
 
       for (let i = 0; i < 10; i++) {
         now += 1;
-        detector.handleCommit(makeLayoutEffectRoot());
+        detector.handleCommit(makeLayoutEffectRoot(root));
       }
 
       // Report is delivered via queueMicrotask
@@ -642,11 +776,12 @@ describe('createDetector', () => {
         windowMs: 1000,
         breakOnLoop: false,
       });
+      const root = makeRoot(makeFiber());
 
       // Ring buffer fills after 5 commits, 6th triggers detection
       // All within < 1000ms of each other (synchronous = ~0ms apart)
       for (let i = 0; i < 6; i++) {
-        detector.handleCommit(makeLayoutEffectRoot());
+        detector.handleCommit(makeLayoutEffectRoot(root));
       }
 
       // Sliding window fires synchronously (inline, not via queueMicrotask)
@@ -678,6 +813,7 @@ describe('createDetector', () => {
         windowMs: 100,
         breakOnLoop: false,
       });
+      const root = makeRoot(makeFiber());
 
       // Mock Date.now to control timing
       const originalDateNow = Date.now;
@@ -688,7 +824,7 @@ describe('createDetector', () => {
         // 3 commits in first batch
         for (let i = 0; i < 3; i++) {
           now += 1;
-          detector.handleCommit(makeLayoutEffectRoot());
+          detector.handleCommit(makeLayoutEffectRoot(root));
         }
 
         // Jump past windowMs
@@ -698,7 +834,7 @@ describe('createDetector', () => {
         // oldest (from first batch) is >200ms ago, so no detection
         for (let i = 0; i < 3; i++) {
           now += 1;
-          detector.handleCommit(makeLayoutEffectRoot());
+          detector.handleCommit(makeLayoutEffectRoot(root));
         }
 
         expect(onLoop).not.toHaveBeenCalled();
@@ -717,6 +853,7 @@ describe('createDetector', () => {
         windowMs: 100,
         breakOnLoop: false,
       });
+      const root = makeRoot(makeFiber());
 
       const originalDateNow = Date.now;
       let now = 1000;
@@ -726,7 +863,7 @@ describe('createDetector', () => {
         // 4 commits near the end of one hypothetical "window"
         for (let i = 0; i < 4; i++) {
           now += 1;
-          detector.handleCommit(makeLayoutEffectRoot());
+          detector.handleCommit(makeLayoutEffectRoot(root));
         }
 
         // Small gap (still within 100ms of the first commit)
@@ -736,7 +873,7 @@ describe('createDetector', () => {
         // A tumbling window might miss this if the boundary fell between batches
         for (let i = 0; i < 2; i++) {
           now += 1;
-          detector.handleCommit(makeLayoutEffectRoot());
+          detector.handleCommit(makeLayoutEffectRoot(root));
         }
 
         // Should have fired — 6 > 5 commits within 100ms
@@ -763,6 +900,7 @@ describe('createDetector', () => {
         windowMs: 100,
         breakOnLoop: false,
       });
+      const root = makeRoot(makeFiber());
 
       const originalDateNow = Date.now;
       let now = 1000;
@@ -772,7 +910,7 @@ describe('createDetector', () => {
         // 10 commits rapidly — should only fire once due to spam guard
         for (let i = 0; i < 10; i++) {
           now += 1;
-          detector.handleCommit(makeLayoutEffectRoot());
+          detector.handleCommit(makeLayoutEffectRoot(root));
         }
 
         return new Promise<void>((resolve) => {
@@ -796,6 +934,7 @@ describe('createDetector', () => {
         windowMs: 100,
         breakOnLoop: false,
       });
+      const root = makeRoot(makeFiber());
 
       const originalDateNow = Date.now;
       let now = 1000;
@@ -805,7 +944,7 @@ describe('createDetector', () => {
         // First burst: 4 commits triggers detection
         for (let i = 0; i < 4; i++) {
           now += 1;
-          detector.handleCommit(makeLayoutEffectRoot());
+          detector.handleCommit(makeLayoutEffectRoot(root));
         }
 
         // Jump past windowMs (spam guard cooldown)
@@ -814,7 +953,7 @@ describe('createDetector', () => {
         // Second burst: another 4 commits should trigger again
         for (let i = 0; i < 4; i++) {
           now += 1;
-          detector.handleCommit(makeLayoutEffectRoot());
+          detector.handleCommit(makeLayoutEffectRoot(root));
         }
 
         return new Promise<void>((resolve) => {
@@ -838,9 +977,10 @@ describe('createDetector', () => {
         windowMs: 1000,
         breakOnLoop: false,
       });
+      const root = makeRoot(makeFiber());
 
       for (let i = 0; i < 5; i++) {
-        detector.handleCommit(makeLayoutEffectRoot());
+        detector.handleCommit(makeLayoutEffectRoot(root));
       }
 
       // Reports are delivered via queueMicrotask
@@ -957,4 +1097,1023 @@ describe('createDetector', () => {
       expect(root.callbackNode).toBe(null);
     });
   });
+
+  describe('lazy snapshots', () => {
+    // Root fiber that counts how often the walker descends into it
+    function makeCountingRoot(child: Fiber, root?: FiberRoot): { root: FiberRoot; walks: () => number } {
+      let reads = 0;
+      const rootFiber = makeFiber({ subtreeFlags: LayoutMask });
+      Object.defineProperty(rootFiber, 'child', {
+        get: () => {
+          reads++;
+          return child;
+        },
+      });
+      return { root: makeRoot(rootFiber, root), walks: () => reads };
+    }
+
+    test('a lone commit does not walk the fiber tree', async () => {
+      const detector = tracked({ onFlush: jest.fn(), sampleRate: 1.0 });
+      const first = makeCountingRoot(makeFiber({ flags: LayoutMask }));
+      detector.handleCommit(first.root);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      // The first lone commit was checked for unstable Provider values
+      const second = makeCountingRoot(makeFiber({ flags: LayoutMask }), first.root);
+      detector.handleCommit(second.root);
+
+      expect(second.walks()).toBe(0);
+    });
+
+    test('walks the tree when pendingLanes predicts a cascade', () => {
+      const detector = tracked({ onFlush: jest.fn(), sampleRate: 1.0 });
+      const { root, walks } = makeCountingRoot(makeFiber({ flags: LayoutMask }));
+      root.pendingLanes = 1;
+
+      detector.handleCommit(root);
+
+      expect(walks()).toBeGreaterThan(0);
+    });
+
+    test('a second commit in the task snapshots the previous tree on demand', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+      const first = makeCountingRoot(makeFiber({ flags: LayoutMask }));
+
+      detector.handleCommit(first.root);
+      // Only the unstable Provider value check
+      const walksAfterFirstCommit = first.walks();
+
+      detector.handleCommit(makePassiveEffectRoot(first.root));
+      expect(first.walks()).toBeGreaterThan(walksAfterFirstCommit);
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      expect((onFlush.mock.calls[0][0] as FlushReport).pattern).toBe('setState-via-microtask');
+    });
+
+    test('does not compare the previous tree with the newer commit', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+      const queue = { dispatch: () => {}, lastRenderedReducer: () => {} };
+      function Header() {}
+
+      const headerN = makeFiber({ type: Header, memoizedState: { memoizedState: 's1', queue, next: null } });
+      const rootN = makeFiber({ child: headerN });
+      const root = makeRoot(rootN);
+      detector.handleCommit(root);
+      // The setState behind the next commit marks both fibers' lanes
+      headerN.lanes = SyncLane;
+      rootN.childLanes = SyncLane;
+
+      // React double-buffers: the next commit's fibers and these are alternates
+      const headerNext = makeFiber({
+        type: Header,
+        memoizedState: { memoizedState: 's2', queue, next: null },
+        alternate: headerN,
+      });
+      const rootNext = makeFiber({ child: headerNext, alternate: rootN });
+      headerN.alternate = headerNext;
+      rootN.alternate = rootNext;
+      detector.handleCommit(makeRoot(rootNext, root));
+
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.pattern).toBe('setState-in-observer');
+      // Header's state in commit N is not a change from N+1's
+      expect(report.evidence).toBe('Synchronous callback triggered setState in same task');
+      expect(report.suspects).toContainEqual(
+        expect.objectContaining({ componentName: 'Header', lanes: SyncLane, changedHooks: [], reason: null })
+      );
+    });
+
+    test('walks lone commits once the async window is hot', async () => {
+      const detector = tracked({ maxCommitsPerWindow: 4, windowMs: 1000 });
+      const walked: boolean[] = [];
+      let root: FiberRoot | undefined;
+
+      for (let i = 0; i < 4; i++) {
+        const entry = makeCountingRoot(makeFiber(), root);
+        root = entry.root;
+        detector.handleCommit(root);
+        walked.push(entry.walks() > 0);
+        // Let the task boundary fire so every commit is alone in its task (the
+        // first message on a fresh MessageChannel can take a while in Node)
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+
+      // Half the window (2 commits) must be recent before lone commits walk
+      expect(walked).toEqual([false, false, true, true]);
+    });
+  });
+
+  describe('per-root state', () => {
+    test('commits on different roots in the same task are not a cascade', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+
+      const rootA = makeLayoutEffectRoot();
+      rootA.pendingLanes = 1; // predicts a cascade on root A only
+      detector.handleCommit(rootA);
+      detector.handleCommit(makePassiveEffectRoot());
+
+      expect(onFlush).not.toHaveBeenCalled();
+    });
+
+    test('sync loop counter is tracked per root', () => {
+      const detector = tracked({
+        sampleRate: 1.0,
+        maxCommitsPerTask: 5,
+        breakOnLoop: true,
+      });
+
+      const rootA = makeLayoutEffectRoot();
+      const rootB = makeLayoutEffectRoot();
+      rootA.pendingLanes = 1;
+      rootB.pendingLanes = 1;
+
+      // 8 commits in one task, but only 4 per root
+      for (let i = 0; i < 4; i++) {
+        detector.handleCommit(rootA);
+        detector.handleCommit(rootB);
+      }
+
+      expect(rootA.pendingLanes).toBe(1);
+      expect(rootB.pendingLanes).toBe(1);
+    });
+
+    test('reports carry a stable id per root', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+
+      const rootA = makePassiveEffectRoot();
+      const rootB = makePassiveEffectRoot();
+      detector.handleCommit(rootA);
+      detector.handleCommit(rootB);
+      detector.handleCommit(makePassiveEffectRoot(rootB));
+      detector.handleCommit(makePassiveEffectRoot(rootA));
+
+      expect(onFlush).toHaveBeenCalledTimes(2);
+      const [reportB, reportA] = onFlush.mock.calls.map((call) => call[0] as FlushReport);
+      expect(reportA.rootId).toBe(1);
+      expect(reportB.rootId).toBe(2);
+    });
+
+    test('loop reports include the root id', (done) => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxCommitsPerTask: 3,
+        breakOnLoop: false,
+      });
+
+      detector.handleCommit(makeLayoutEffectRoot());
+      const root = makeLayoutEffectRoot();
+      for (let i = 0; i < 4; i++) {
+        detector.handleCommit(root);
+      }
+
+      setTimeout(() => {
+        expect(onLoop).toHaveBeenCalledTimes(1);
+        expect((onLoop.mock.calls[0][0] as LoopReport).rootId).toBe(2);
+        done();
+      }, 10);
+    });
+
+    test('rootThresholds overrides limits for matching roots only', () => {
+      const strictRoot = makeLayoutEffectRoot();
+      const defaultRoot = makeLayoutEffectRoot();
+      const rootThresholds = jest.fn((root: FiberRoot) =>
+        root === strictRoot ? { maxCommitsPerTask: 2 } : null
+      );
+      const detector = tracked({
+        sampleRate: 1.0,
+        maxCommitsPerTask: 5,
+        breakOnLoop: true,
+        rootThresholds,
+      });
+
+      strictRoot.pendingLanes = 1;
+      defaultRoot.pendingLanes = 1;
+      for (let i = 0; i < 3; i++) {
+        detector.handleCommit(strictRoot);
+        detector.handleCommit(defaultRoot);
+      }
+
+      expect(strictRoot.pendingLanes).toBe(0); // frozen after 3 > 2
+      expect(defaultRoot.pendingLanes).toBe(1);
+      // Resolved once per root, on first commit
+      expect(rootThresholds).toHaveBeenCalledTimes(2);
+    });
+
+    test('getRootStats counts commits and loops and reports freezing', () => {
+      const detector = tracked({ sampleRate: 1.0, maxCommitsPerTask: 3, breakOnLoop: true });
+      const root = makeLayoutEffectRoot();
+      expect(detector.getRootStats(root)).toBeNull();
+
+      root.tag = 1;
+      root.pendingLanes = 1;
+      for (let i = 0; i < 4; i++) {
+        detector.handleCommit(root);
+      }
+
+      expect(detector.getRootStats(root)).toEqual({
+        id: 1,
+        mode: 'concurrent',
+        commitCount: 4,
+        loopCount: 1,
+        frozen: true,
+      });
+    });
+
+    test('getRootStats reads legacy roots and roots added before committing', () => {
+      const detector = tracked();
+      const legacyRoot = makeLayoutEffectRoot();
+      legacyRoot.tag = 0;
+      detector.addRoot(legacyRoot);
+      detector.addRoot(makeLayoutEffectRoot());
+
+      expect(detector.getRootStats(legacyRoot)).toMatchObject({ id: 1, mode: 'legacy', commitCount: 0, frozen: false });
+    });
+  });
+
+  describe('cross-root loop detection', () => {
+    function makeNamedLayoutRoot(name: string): FiberRoot {
+      const type = { [name]: function () {} }[name];
+      const child = makeFiber({ flags: LayoutMask });
+      return makeRoot(makeFiber({ type, subtreeFlags: LayoutMask, child }));
+    }
+
+    test('fires when commits alternate between roots beyond the budget', (done) => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxCrossRootAlternations: 5,
+        breakOnLoop: false,
+      });
+
+      const rootA = makeNamedLayoutRoot('CompA');
+      const rootB = makeNamedLayoutRoot('CompB');
+      for (let i = 0; i < 4; i++) {
+        detector.handleCommit(rootA);
+        detector.handleCommit(rootB);
+      }
+
+      setTimeout(() => {
+        expect(onLoop).toHaveBeenCalledTimes(1);
+        const report = onLoop.mock.calls[0][0] as LoopReport;
+        expect(report.pattern).toBe('cross-root');
+        expect(report.commitCount).toBe(8);
+        expect(report.roots).toEqual([
+          { rootId: 1, suspects: ['CompA'], suspectPaths: ['CompA'] },
+          { rootId: 2, suspects: ['CompB'], suspectPaths: ['CompB'] },
+        ]);
+        expect(report.suspects).toEqual(['CompA', 'CompB']);
+        done();
+      }, 10);
+    });
+
+    test('does not fire when the same root commits repeatedly between switches', (done) => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxCrossRootAlternations: 3,
+        breakOnLoop: false,
+      });
+
+      const rootA = makeLayoutEffectRoot();
+      const rootB = makeLayoutEffectRoot();
+      for (let i = 0; i < 4; i++) {
+        detector.handleCommit(rootA);
+        detector.handleCommit(rootA);
+        detector.handleCommit(rootB);
+        detector.handleCommit(rootB);
+      }
+
+      setTimeout(() => {
+        expect(onLoop).not.toHaveBeenCalled();
+        done();
+      }, 10);
+    });
+
+    test('does not fire for roots that alternate slower than windowMs', () => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxCrossRootAlternations: 3,
+        windowMs: 100,
+        breakOnLoop: false,
+      });
+
+      const originalDateNow = Date.now;
+      let now = 1000;
+      Date.now = () => now;
+
+      try {
+        const rootA = makeLayoutEffectRoot();
+        const rootB = makeLayoutEffectRoot();
+        for (let i = 0; i < 6; i++) {
+          now += 40;
+          detector.handleCommit(rootA);
+          now += 40;
+          detector.handleCommit(rootB);
+        }
+
+        return new Promise<void>((resolve) => {
+          setTimeout(() => {
+            expect(onLoop).not.toHaveBeenCalled();
+            resolve();
+          }, 10);
+        });
+      } finally {
+        Date.now = originalDateNow;
+      }
+    });
+
+    test('does not fire for roots that update independently across tasks', async () => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxCrossRootAlternations: 3,
+        breakOnLoop: false,
+      });
+
+      // Two roots re-rendering from a shared store, one commit each per task
+      const rootA = makeLayoutEffectRoot();
+      const rootB = makeLayoutEffectRoot();
+      for (let i = 0; i < 6; i++) {
+        detector.handleCommit(rootA);
+        detector.handleCommit(rootB);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+
+      expect(onLoop).not.toHaveBeenCalled();
+    });
+
+    test('does not fire for many roots committing once each in one task', () => {
+      const detector = tracked({
+        onLoop: jest.fn(),
+        sampleRate: 1.0,
+        maxCrossRootAlternations: 5,
+        breakOnLoop: true,
+      });
+
+      // One store update re-rendering every micro-frontend root
+      const roots = Array.from({ length: 20 }, () => makeLayoutEffectRoot());
+      for (const root of roots) {
+        root.pendingLanes = 1;
+        detector.handleCommit(root);
+      }
+
+      expect(roots.every((root) => root.pendingLanes === 1)).toBe(true);
+      expect(detector.getRootStats(roots[0])).toMatchObject({ loopCount: 0 });
+    });
+
+    test('break mode freezes every root in the cycle', () => {
+      const detector = tracked({
+        sampleRate: 1.0,
+        maxCrossRootAlternations: 4,
+        breakOnLoop: true,
+      });
+
+      const rootA = makeLayoutEffectRoot();
+      const rootB = makeLayoutEffectRoot();
+      const rootC = makeLayoutEffectRoot();
+      for (const root of [rootA, rootB, rootC]) {
+        root.pendingLanes = 1;
+      }
+      for (let i = 0; i < 3; i++) {
+        detector.handleCommit(rootA);
+        detector.handleCommit(rootB);
+        detector.handleCommit(rootC);
+      }
+
+      expect(rootA.pendingLanes).toBe(0);
+      expect(rootB.pendingLanes).toBe(0);
+      expect(rootC.pendingLanes).toBe(0);
+    });
+
+    test('breakOnLoop.crossRoot: false reports without freezing', () => {
+      const detector = tracked({
+        sampleRate: 1.0,
+        maxCrossRootAlternations: 3,
+        breakOnLoop: { crossRoot: false },
+      });
+
+      const rootA = makeLayoutEffectRoot();
+      const rootB = makeLayoutEffectRoot();
+      rootA.pendingLanes = 1;
+      rootB.pendingLanes = 1;
+      for (let i = 0; i < 3; i++) {
+        detector.handleCommit(rootA);
+        detector.handleCommit(rootB);
+      }
+
+      expect(rootA.pendingLanes).toBe(1);
+      expect(rootB.pendingLanes).toBe(1);
+    });
+  });
+
+  describe('passive-effect loop detection', () => {
+    // Models a committed useEffect → setState cycle: the component has a
+    // Passive flag and its state differs from the alternate on every commit.
+    function commitPassiveLoop(root: FiberRoot, type: Fiber['type']): FiberRoot {
+      const alternate = makeFiber({ type, memoizedState: {} });
+      const child = makeFiber({ type, flags: Passive, memoizedState: {}, alternate });
+      return makeRoot(makeFiber({ subtreeFlags: Passive, child }), root);
+    }
+
+    test('reports passive-effect-loop when the same component loops every commit', () => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxCommitsPerTask: 1000,
+        maxCommitsPerWindow: 5,
+        windowMs: 1000,
+        breakOnLoop: false,
+      });
+
+      const Poller = function Poller() {};
+      const root = makeRoot(makeFiber());
+      for (let i = 0; i < 6; i++) {
+        detector.handleCommit(commitPassiveLoop(root, Poller));
+      }
+
+      return new Promise<void>((resolve) => {
+        setTimeout(() => {
+          expect(onLoop).toHaveBeenCalledTimes(1);
+          const report = onLoop.mock.calls[0][0] as LoopReport;
+          expect(report.pattern).toBe('passive-effect-loop');
+          expect(report.suspects).toEqual(['Poller']);
+          expect(report.effectOwners).toHaveLength(1);
+          expect(report.effectOwners![0].type).toBe(Poller);
+          resolve();
+        }, 10);
+      });
+    });
+
+    test('falls back to async when different components update each commit', () => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxCommitsPerTask: 1000,
+        maxCommitsPerWindow: 5,
+        windowMs: 1000,
+        breakOnLoop: false,
+      });
+
+      const root = makeRoot(makeFiber());
+      for (let i = 0; i < 6; i++) {
+        detector.handleCommit(commitPassiveLoop(root, function Other() {}));
+      }
+
+      return new Promise<void>((resolve) => {
+        setTimeout(() => {
+          expect(onLoop).toHaveBeenCalledTimes(1);
+          const report = onLoop.mock.calls[0][0] as LoopReport;
+          expect(report.pattern).toBe('async');
+          expect(report.effectOwners).toBeUndefined();
+          resolve();
+        }, 10);
+      });
+    });
+
+    test('breaks according to breakOnLoop.async', () => {
+      const detector = tracked({
+        sampleRate: 1.0,
+        maxCommitsPerTask: 1000,
+        maxCommitsPerWindow: 5,
+        windowMs: 1000,
+        breakOnLoop: { async: true },
+      });
+
+      const Poller = function Poller() {};
+      const root = makeRoot(makeFiber());
+      for (let i = 0; i < 6; i++) {
+        commitPassiveLoop(root, Poller);
+        root.pendingLanes = 1;
+        detector.handleCommit(root);
+      }
+
+      expect(root.pendingLanes).toBe(0);
+    });
+  });
+
+  describe('error-boundary loop detection', () => {
+    // Models a commit where a boundary has just captured and rendered its
+    // fallback (DidCapture newly set relative to the alternate).
+    function commitCapture(root: FiberRoot): FiberRoot {
+      const Boundary = function Boundary() {};
+      const Fallback = function Fallback() {};
+      const boundary = makeFiber({
+        tag: ClassComponent,
+        type: Boundary,
+        flags: DidCapture,
+        child: makeFiber({ type: Fallback }),
+        alternate: makeFiber({ tag: ClassComponent, type: Boundary }),
+      });
+      return makeRoot(makeFiber({ subtreeFlags: DidCapture, child: boundary }), root);
+    }
+
+    test('fires when a boundary keeps capturing beyond maxErrorCommits', (done) => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxErrorCommits: 3,
+        breakOnLoop: false,
+      });
+
+      const root = makeRoot(makeFiber());
+      for (let i = 0; i < 4; i++) {
+        detector.handleCommit(commitCapture(root));
+      }
+
+      setTimeout(() => {
+        expect(onLoop).toHaveBeenCalledTimes(1);
+        const report = onLoop.mock.calls[0][0] as LoopReport;
+        expect(report.pattern).toBe('error-boundary-loop');
+        expect(report.commitCount).toBe(4);
+        expect(report.suspects).toEqual(['Boundary', 'Fallback']);
+        expect(report.suspectPaths).toEqual(['Boundary', 'Boundary > Fallback']);
+        expect(report.errorBoundaries).toHaveLength(1);
+        expect(report.errorBoundaries![0].throwingComponent).toBe('Fallback');
+        done();
+      }, 10);
+    });
+
+    test('counts commits React reports with didError', (done) => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxErrorCommits: 3,
+        breakOnLoop: false,
+      });
+
+      const root = makeLayoutEffectRoot();
+      for (let i = 0; i < 4; i++) {
+        detector.handleCommit(root, true);
+      }
+
+      setTimeout(() => {
+        expect(onLoop).toHaveBeenCalledTimes(1);
+        const report = onLoop.mock.calls[0][0] as LoopReport;
+        expect(report.pattern).toBe('error-boundary-loop');
+        expect(report.errorBoundaries).toEqual([]);
+        done();
+      }, 10);
+    });
+
+    test('does not fire when error commits are spread beyond windowMs', () => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        sampleRate: 1.0,
+        maxErrorCommits: 3,
+        windowMs: 100,
+        breakOnLoop: false,
+      });
+
+      const originalDateNow = Date.now;
+      let now = 1000;
+      Date.now = () => now;
+
+      try {
+        const root = makeRoot(makeFiber());
+        for (let i = 0; i < 6; i++) {
+          now += 60;
+          detector.handleCommit(commitCapture(root));
+        }
+
+        return new Promise<void>((resolve) => {
+          setTimeout(() => {
+            expect(onLoop).not.toHaveBeenCalled();
+            resolve();
+          }, 10);
+        });
+      } finally {
+        Date.now = originalDateNow;
+      }
+    });
+
+    test('break mode freezes the root', () => {
+      const detector = tracked({
+        sampleRate: 1.0,
+        maxErrorCommits: 3,
+        breakOnLoop: { errorBoundary: true },
+      });
+
+      const root = makeRoot(makeFiber());
+      for (let i = 0; i < 4; i++) {
+        commitCapture(root);
+        root.pendingLanes = 1;
+        detector.handleCommit(root);
+      }
+
+      expect(root.pendingLanes).toBe(0);
+    });
+  });
+
+  describe('setState instrumentation', () => {
+    // Layout-effect root whose child owns a useState hook — the walk wraps
+    // queue.dispatch the first time it sees the hook.
+    function makeStatefulLayoutRoot(queue: object, root?: FiberRoot): FiberRoot {
+      const child = makeFiber({
+        type: function Panel() {},
+        flags: LayoutMask,
+        memoizedState: { memoizedState: 0, queue, next: null },
+      });
+      return makeRoot(makeFiber({ subtreeFlags: LayoutMask, child }), root);
+    }
+
+    function stateQueue() {
+      return { dispatch: jest.fn() as (...args: unknown[]) => unknown, lastRenderedReducer: () => {} };
+    }
+
+    test('attaches the recorded setState call site to flush reports', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0, instrumentSetState: true });
+      const queue = stateQueue();
+
+      const root = makeStatefulLayoutRoot(queue);
+      detector.handleCommit(root);
+      queue.dispatch(1);
+      detector.handleCommit(makeStatefulLayoutRoot(queue, root));
+
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.setStateCalls).toHaveLength(1);
+      expect(report.setStateCalls![0].componentName).toBe('Panel');
+      expect(report.setStateCalls![0].hookIndex).toBe(0);
+      expect(report.setStateLocation?.fileName).toContain('detector.test.ts');
+    });
+
+    test('forward cascades use the calls recorded at the origin commit', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0, instrumentSetState: true });
+      const queue = stateQueue();
+
+      const root = makeStatefulLayoutRoot(queue);
+      detector.handleCommit(root);
+      queue.dispatch(1);
+      makeStatefulLayoutRoot(queue, root).pendingLanes = 1;
+      detector.handleCommit(root);
+      detector.handleCommit(makePassiveEffectRoot(root));
+
+      const report = onFlush.mock.calls[onFlush.mock.calls.length - 1][0] as FlushReport;
+      expect(report.pattern).toBe('setState-in-layout-effect');
+      expect(report.setStateCalls).toHaveLength(1);
+      expect(report.setStateCalls![0].hookIndex).toBe(0);
+    });
+
+    test('leaves dispatchers untouched when disabled', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+      const queue = stateQueue();
+      const original = queue.dispatch;
+
+      const root = makeStatefulLayoutRoot(queue);
+      detector.handleCommit(root);
+      detector.handleCommit(makeStatefulLayoutRoot(queue, root));
+
+      expect(queue.dispatch).toBe(original);
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.setStateCalls).toBeUndefined();
+    });
+  });
+
+  describe('unstable context value detection', () => {
+    const Theme = { displayName: 'Theme' };
+    const ThemeProvider = { _context: Theme };
+
+    // Provider re-rendered with a fresh { mode: 'dark' } read by one consumer
+    function makeProviderRoot(root?: FiberRoot): FiberRoot {
+      const value = { mode: 'dark' };
+      const child = makeFiber({
+        type: function Consumer() {},
+        flags: PerformedWork,
+        dependencies: { firstContext: { context: Theme, memoizedValue: value, next: null } },
+      });
+      const provider = makeFiber({
+        tag: ContextProvider,
+        type: ThemeProvider,
+        memoizedProps: { value },
+        alternate: makeFiber({ tag: ContextProvider, type: ThemeProvider, memoizedProps: { value: { mode: 'dark' } } }),
+        subtreeFlags: PerformedWork,
+        child,
+      });
+      return makeRoot(makeFiber({ type: function App() {}, child: provider }), root);
+    }
+
+    test('reports once per provider', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+
+      const root = makeProviderRoot();
+      detector.handleCommit(root);
+      detector.handleCommit(makeProviderRoot(root));
+
+      const reports = onFlush.mock.calls
+        .map(([report]) => report as FlushReport)
+        .filter((report) => report.pattern === 'unstable-context-value');
+      expect(reports).toHaveLength(1);
+      expect(reports[0].evidence).toBe(
+        'Theme.Provider value in App is a new object with the same contents (1 consumers re-rendered)'
+      );
+      expect(reports[0].suspects).toHaveLength(1);
+    });
+
+    test('reports an unstable value from a single lone commit', () => {
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+
+      detector.handleCommit(makeProviderRoot());
+
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      expect((onFlush.mock.calls[0][0] as FlushReport).pattern).toBe('unstable-context-value');
+    });
+  });
+
+  describe('overhead budget', () => {
+    // Every performance.now() call advances the clock, so each commit costs
+    // a few milliseconds of observer time
+    function advancingClock(stepMs: number): void {
+      let now = 0;
+      performance.now = () => (now += stepMs);
+    }
+
+    test('getOverhead counts commits and starts at full', () => {
+      const detector = tracked({ onFlush: jest.fn(), sampleRate: 1.0 });
+
+      detector.handleCommit(makeLayoutEffectRoot());
+      detector.handleCommit(makeLayoutEffectRoot());
+
+      const stats = detector.getOverhead();
+      expect(stats.commits).toBe(2);
+      expect(stats.level).toBe('full');
+      expect(stats.totalMs).toBeGreaterThanOrEqual(stats.walkMs + stats.stackMs + stats.classifyMs);
+    });
+
+    test('attributes onFlush time to callbacks', () => {
+      advancingClock(1);
+      const detector = tracked({ onFlush: () => performance.now(), sampleRate: 1.0 });
+
+      const root = makeLayoutEffectRoot();
+      detector.handleCommit(root);
+      detector.handleCommit(makeLayoutEffectRoot(root));
+
+      expect(detector.getOverhead().callbackMs).toBeGreaterThan(0);
+    });
+
+    test('steps down one level each time the budget is exceeded', () => {
+      advancingClock(10);
+      const onDegrade = jest.fn();
+      const detector = tracked({ onFlush: jest.fn(), overheadBudgetMs: 1, onDegrade });
+
+      for (let i = 0; i < 5; i++) {
+        detector.handleCommit(makeLayoutEffectRoot());
+      }
+
+      expect(onDegrade.mock.calls.map(([event]) => [event.previousLevel, event.level])).toEqual([
+        ['full', 'no-flush'],
+        ['no-flush', 'shallow-stacks'],
+        ['shallow-stacks', 'loops-only'],
+      ]);
+      expect(onDegrade.mock.calls[0][0]).toMatchObject({ type: 'degradation', budgetMs: 1 });
+      expect(onDegrade.mock.calls[0][0].overheadMs).toBeGreaterThan(1);
+      expect(detector.getOverhead().level).toBe('loops-only');
+    });
+
+    test('a new budget from configure() restarts at full', () => {
+      advancingClock(10);
+      const detector = tracked({ onFlush: jest.fn(), overheadBudgetMs: 1 });
+      detector.handleCommit(makeLayoutEffectRoot());
+      expect(detector.getOverhead().level).not.toBe('full');
+
+      detector.configure({ overheadBudgetMs: null });
+      expect(detector.getOverhead().level).toBe('full');
+    });
+
+    test('stops flush detection once degraded', () => {
+      advancingClock(10);
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0, overheadBudgetMs: 1 });
+
+      const root = makeLayoutEffectRoot();
+      detector.handleCommit(root);
+      detector.handleCommit(makeLayoutEffectRoot(root));
+
+      expect(detector.getOverhead().level).not.toBe('full');
+      expect(onFlush).not.toHaveBeenCalled();
+    });
+
+    test('keeps detecting loops at loops-only', () => {
+      advancingClock(10);
+      const onLoop = jest.fn();
+      const detector = tracked({ onLoop, maxCommitsPerTask: 5, overheadBudgetMs: 1 });
+
+      const root = makeRoot(makeFiber());
+      for (let i = 0; i < 6; i++) {
+        detector.handleCommit(makeRoot(makeFiber(), root));
+      }
+
+      expect(detector.getOverhead().level).toBe('loops-only');
+      return new Promise<void>((resolve) => setTimeout(resolve, 0)).then(() => {
+        expect(onLoop).toHaveBeenCalledTimes(1);
+        expect((onLoop.mock.calls[0][0] as LoopReport).pattern).toBe('sync');
+      });
+    });
+
+    test('never degrades without a budget', () => {
+      advancingClock(10);
+      const detector = tracked({ onFlush: jest.fn() });
+
+      for (let i = 0; i < 5; i++) {
+        detector.handleCommit(makeLayoutEffectRoot());
+      }
+
+      expect(detector.getOverhead().level).toBe('full');
+    });
+  });
+
+  describe('component ids', () => {
+    test('memo and forwardRef components carry their stamped id into suspects', () => {
+      const code = [
+        "import { memo, forwardRef } from 'react';",
+        'const Row = memo(function Row() { return null; });',
+        'const Input = forwardRef(function Input(props, ref) { return null; });',
+      ].join('\n');
+      const stamped = injectComponentIds(code, '/app/src/List.jsx', { root: '/app' })!;
+      // React's memo() and forwardRef() objects
+      const { Row, Input } = new Function(
+        'memo',
+        'forwardRef',
+        `${stamped.replace(/^import .*$/m, '')}\nreturn { Row, Input };`
+      )((type: unknown) => ({ type }), (render: unknown) => ({ render }));
+
+      const onFlush = jest.fn();
+      const detector = tracked({ onFlush, sampleRate: 1.0 });
+      // A simple memo fiber's type is the wrapped function; a forwardRef
+      // fiber's is the forwardRef object
+      const input = makeFiber({ tag: ForwardRef, type: Input, flags: LayoutMask });
+      const row = makeFiber({ tag: SimpleMemoComponent, type: Row.type, flags: LayoutMask, sibling: input });
+      const root = makeRoot(makeFiber({ subtreeFlags: LayoutMask, child: row }));
+      root.pendingLanes = 1;
+      detector.handleCommit(root);
+      detector.handleCommit(makePassiveEffectRoot(root));
+
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      const report = onFlush.mock.calls[0][0] as FlushReport;
+      expect(report.suspects).toEqual([
+        expect.objectContaining({ tag: SimpleMemoComponent, componentId: 'src/List.jsx:2' }),
+        expect.objectContaining({ tag: ForwardRef, componentId: 'src/List.jsx:3' }),
+      ]);
+    });
+  });
+
+  describe('runtime configuration', () => {
+    let originalDateNow: typeof Date.now;
+    let now: number;
+
+    beforeEach(() => {
+      originalDateNow = Date.now;
+      now = 1000;
+      Date.now = () => now;
+    });
+
+    afterEach(() => {
+      Date.now = originalDateNow;
+    });
+
+    function commitRapidly(detector: Detector, root: FiberRoot, count: number): void {
+      for (let i = 0; i < count; i++) {
+        now += 1;
+        detector.handleCommit(makeLayoutEffectRoot(root));
+      }
+    }
+
+    test('new thresholds apply to roots that already committed', () => {
+      const detector = tracked({ sampleRate: 1.0, maxCommitsPerTask: 10, breakOnLoop: true });
+      const root = makeLayoutEffectRoot();
+      root.pendingLanes = 1;
+      detector.handleCommit(root);
+      detector.handleCommit(root);
+
+      detector.configure({ maxCommitsPerTask: 2 });
+      detector.handleCommit(root);
+      expect(root.pendingLanes).toBe(0);
+    });
+
+    test('shrinking the async window keeps the latest commits', () => {
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        maxCommitsPerTask: 1000,
+        maxCommitsPerWindow: 10,
+        windowMs: 100,
+        breakOnLoop: false,
+      });
+      const root = makeRoot(makeFiber());
+      commitRapidly(detector, root, 6);
+
+      // The last 4 commits fill the smaller window; one more is a loop
+      detector.configure({ maxCommitsPerWindow: 4 });
+      commitRapidly(detector, root, 1);
+      expect(detector.getRootStats(root)).toMatchObject({ loopCount: 1 });
+    });
+
+    test('growing the async window waits for it to fill', () => {
+      const detector = tracked({
+        maxCommitsPerTask: 1000,
+        maxCommitsPerWindow: 3,
+        windowMs: 100,
+        breakOnLoop: false,
+      });
+      const root = makeRoot(makeFiber());
+      commitRapidly(detector, root, 2);
+
+      detector.configure({ maxCommitsPerWindow: 6 });
+      commitRapidly(detector, root, 4);
+      expect(detector.getRootStats(root)).toMatchObject({ loopCount: 0 });
+      commitRapidly(detector, root, 1);
+      expect(detector.getRootStats(root)).toMatchObject({ loopCount: 1 });
+    });
+
+    test('rejects an async window that is not a positive integer', async () => {
+      expect(() => createDetector({ maxCommitsPerWindow: 0 })).toThrow(RangeError);
+
+      const onLoop = jest.fn();
+      const detector = tracked({
+        onLoop,
+        maxCommitsPerTask: 1000,
+        maxCommitsPerWindow: 3,
+        windowMs: 100,
+        breakOnLoop: false,
+      });
+      for (const size of [0, -1, 2.5, NaN]) {
+        expect(() => detector.configure({ maxCommitsPerWindow: size, onLoop: null })).toThrow(RangeError);
+      }
+
+      // The window and the rest of each rejected update are unchanged
+      const root = makeRoot(makeFiber());
+      commitRapidly(detector, root, 4);
+      expect(detector.getRootStats(root)).toMatchObject({ loopCount: 1 });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(onLoop).toHaveBeenCalledTimes(1);
+    });
+
+    test('ignores an invalid async window from rootThresholds', () => {
+      const detector = tracked({
+        maxCommitsPerTask: 1000,
+        maxCommitsPerWindow: 3,
+        windowMs: 100,
+        breakOnLoop: false,
+        rootThresholds: () => ({ maxCommitsPerWindow: 0 }),
+      });
+      const root = makeRoot(makeFiber());
+      commitRapidly(detector, root, 4);
+      expect(detector.getRootStats(root)).toMatchObject({ loopCount: 1 });
+    });
+
+    test('swaps and removes callbacks', async () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const detector = tracked({ onLoop: first, maxCommitsPerTask: 2, breakOnLoop: false });
+      detector.configure({ onLoop: second, breakOnLoop: true });
+
+      const root = makeLayoutEffectRoot();
+      root.pendingLanes = 1;
+      commitRapidly(detector, root, 3);
+      // breakOnLoop from configure() froze the root
+      expect(root.pendingLanes).toBe(0);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+
+      detector.configure({ onLoop: null });
+      commitRapidly(detector, makeLayoutEffectRoot(), 3);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    test('pause ignores commits until resume', () => {
+      const detector = tracked({ maxCommitsPerTask: 2, breakOnLoop: false });
+      const root = makeLayoutEffectRoot();
+      detector.handleCommit(root);
+
+      detector.pause();
+      commitRapidly(detector, root, 5);
+      expect(detector.getRootStats(root)).toMatchObject({ commitCount: 1, loopCount: 0 });
+
+      detector.resume();
+      commitRapidly(detector, root, 2);
+      expect(detector.getRootStats(root)).toMatchObject({ commitCount: 3, loopCount: 1 });
+    });
+  });
 });
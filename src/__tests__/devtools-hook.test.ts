@@ -0,0 +1,209 @@
+import { createDevToolsHook } from '../devtools-hook';
+import type { Fiber, FiberRoot, ReactDevToolsHook } from '../types';
+
+// Members the DevTools backend, react-refresh and React itself use
+const HOOK_METHODS = [
+  'inject',
+  'checkDCE',
+  'sub',
+  'on',
+  'off',
+  'emit',
+  'getFiberRoots',
+  'onScheduleFiberRoot',
+  'onCommitFiberRoot',
+  'onPostCommitFiberRoot',
+  'onCommitFiberUnmount',
+  'setStrictMode',
+] as const;
+
+function makeRoot(element: unknown): FiberRoot {
+  return {
+    current: {
+      tag: 3,
+      flags: 0,
+      subtreeFlags: 0,
+      lanes: 0,
+      childLanes: 0,
+      child: null,
+      sibling: null,
+      memoizedState: { element },
+    },
+    pendingLanes: 0,
+    callbackPriority: 0,
+    callbackNode: null,
+  };
+}
+
+describe('createDevToolsHook', () => {
+  test('implements the whole hook surface', () => {
+    const hook = createDevToolsHook();
+    expect(hook.supportsFiber).toBe(true);
+    expect(hook.renderers).toBeInstanceOf(Map);
+    expect(hook.rendererInterfaces).toBeInstanceOf(Map);
+    expect(hook.listeners).toEqual({});
+    for (const method of HOOK_METHODS) {
+      expect(typeof hook[method]).toBe('function');
+    }
+  });
+
+  test('inject records renderers with ids from 1 and emits them', () => {
+    const hook = createDevToolsHook();
+    const onRenderer = jest.fn();
+    hook.on('renderer', onRenderer);
+
+    expect(hook.inject({ version: '18.2.0' })).toBe(1);
+    expect(hook.inject({ version: '19.0.0' })).toBe(2);
+    expect(hook.renderers.get(2)).toEqual({ version: '19.0.0' });
+    expect(onRenderer).toHaveBeenCalledWith({ id: 1, renderer: { version: '18.2.0' } });
+  });
+
+  test('sub returns an unsubscribe, and off removes listeners', () => {
+    const hook = createDevToolsHook();
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribe = hook.sub('operations', first);
+    hook.on('operations', second);
+
+    hook.emit('operations', 1);
+    unsubscribe();
+    hook.emit('operations', 2);
+    hook.off('operations', second);
+    hook.emit('operations', 3);
+
+    expect(first.mock.calls).toEqual([[1]]);
+    expect(second.mock.calls).toEqual([[1], [2]]);
+    expect(hook.listeners).toEqual({});
+  });
+
+  test('getFiberRoots tracks mounted roots per renderer', () => {
+    const hook = createDevToolsHook();
+    const root = makeRoot({});
+
+    hook.onCommitFiberRoot(1, root, 0, false);
+    expect([...hook.getFiberRoots(1)]).toEqual([root]);
+    expect(hook.getFiberRoots(2).size).toBe(0);
+
+    // Unmounting commits render no element
+    (root.current.memoizedState as { element: unknown }).element = null;
+    hook.onCommitFiberRoot(1, root, 0, false);
+    expect(hook.getFiberRoots(1).size).toBe(0);
+  });
+
+  test('forwards commits and strict mode to the renderer interface', () => {
+    const hook = createDevToolsHook();
+    const rendererInterface = {
+      handleCommitFiberRoot: jest.fn(),
+      handlePostCommitFiberRoot: jest.fn(),
+      handleCommitFiberUnmount: jest.fn(),
+      patchConsoleForStrictMode: jest.fn(),
+      unpatchConsoleForStrictMode: jest.fn(),
+    };
+    hook.rendererInterfaces.set(1, rendererInterface);
+    const root = makeRoot({});
+    const fiber = root.current as Fiber;
+
+    hook.onCommitFiberRoot(1, root, 3, false);
+    hook.onPostCommitFiberRoot(1, root);
+    hook.onCommitFiberUnmount(1, fiber);
+    hook.setStrictMode(1, true);
+    hook.setStrictMode(1, false);
+    // No interface for this renderer yet
+    hook.onCommitFiberRoot(2, root, 3, false);
+
+    expect(rendererInterface.handleCommitFiberRoot).toHaveBeenCalledTimes(1);
+    expect(rendererInterface.handleCommitFiberRoot).toHaveBeenCalledWith(root, 3);
+    expect(rendererInterface.handlePostCommitFiberRoot).toHaveBeenCalledWith(root);
+    expect(rendererInterface.handleCommitFiberUnmount).toHaveBeenCalledWith(fiber);
+    expect(rendererInterface.patchConsoleForStrictMode).toHaveBeenCalledTimes(1);
+    expect(rendererInterface.unpatchConsoleForStrictMode).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with an existing hook', () => {
+    function makeExistingHook(): ReactDevToolsHook {
+      const existing = {
+        supportsFiber: true,
+        renderers: new Map(),
+        rendererInterfaces: new Map(),
+        listeners: {},
+      } as unknown as ReactDevToolsHook;
+      for (const method of HOOK_METHODS) {
+        (existing as unknown as Record<string, unknown>)[method] = jest.fn(function (this: unknown) {
+          // Record the receiver to check delegation keeps it
+          (existing as unknown as { receiver: unknown }).receiver = this;
+          return method === 'inject' ? 7 : undefined;
+        });
+      }
+      return existing;
+    }
+
+    test('delegates every method to it, as a method of it', () => {
+      const existing = makeExistingHook();
+      const hook = createDevToolsHook(existing);
+      const root = makeRoot({});
+
+      const calls: [typeof HOOK_METHODS[number], unknown[]][] = [
+        ['inject', [{ version: '18.2.0' }]],
+        ['checkDCE', [() => {}]],
+        ['sub', ['renderer', () => {}]],
+        ['on', ['renderer', () => {}]],
+        ['off', ['renderer', () => {}]],
+        ['emit', ['renderer', {}]],
+        ['getFiberRoots', [1]],
+        ['onScheduleFiberRoot', [1, root, null]],
+        ['onCommitFiberRoot', [1, root, 0, false]],
+        ['onPostCommitFiberRoot', [1, root]],
+        ['onCommitFiberUnmount', [1, root.current]],
+        ['setStrictMode', [1, true]],
+      ];
+      for (const [method, args] of calls) {
+        (hook[method] as (...args: unknown[]) => unknown)(...args);
+        expect(existing[method]).toHaveBeenCalledWith(...args);
+        expect((existing as unknown as { receiver: unknown }).receiver).toBe(existing);
+      }
+      expect(calls.map(([method]) => method)).toEqual([...HOOK_METHODS]);
+    });
+
+    test('shares its renderers, renderer interfaces and listeners', () => {
+      const existing = makeExistingHook();
+      const hook = createDevToolsHook(existing);
+
+      expect(hook.inject({ version: '18.2.0' })).toBe(7);
+      expect(hook.renderers).toBe(existing.renderers);
+      expect(hook.rendererInterfaces).toBe(existing.rendererInterfaces);
+      expect(hook.listeners).toBe(existing.listeners);
+      // Its inject keeps the map, not ours
+      expect(hook.renderers.size).toBe(0);
+    });
+
+    test('calls methods wrapped onto it after creation', () => {
+      const existing = makeExistingHook();
+      const hook = createDevToolsHook(existing);
+      const wrapped = jest.fn();
+      existing.onScheduleFiberRoot = wrapped;
+
+      hook.onScheduleFiberRoot(1, makeRoot({}), null);
+      expect(wrapped).toHaveBeenCalledTimes(1);
+    });
+
+    test('fills in what a minimal hook lacks', () => {
+      const onCommitFiberRoot = jest.fn();
+      const existing = { inject: jest.fn().mockReturnValue(3), onCommitFiberRoot };
+      const hook = createDevToolsHook(existing);
+      const root = makeRoot({});
+
+      expect(hook.inject({ version: '17.0.2' })).toBe(3);
+      expect(hook.renderers.get(3)).toEqual({ version: '17.0.2' });
+
+      hook.onCommitFiberRoot(3, root, 0, false);
+      expect(onCommitFiberRoot).toHaveBeenCalledWith(3, root, 0, false);
+      expect([...hook.getFiberRoots(3)]).toEqual([root]);
+
+      const listener = jest.fn();
+      hook.sub('renderer', listener)();
+      hook.on('renderer', listener);
+      hook.emit('renderer', 1);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
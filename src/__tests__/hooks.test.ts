@@ -0,0 +1,173 @@
+import { getFirstHook, findUnstableStoreHooks, getHookKind, findChangedHooks } from '../hooks';
+import { FunctionComponent } from '../constants';
+import type { Fiber, Hook } from '../types';
+
+function makeFiber(overrides: Partial<Fiber> = {}): Fiber {
+  return {
+    tag: FunctionComponent,
+    type: function MockComponent() {},
+    flags: 0,
+    subtreeFlags: 0,
+    lanes: 0,
+    childLanes: 0,
+    child: null,
+    sibling: null,
+    ...overrides,
+  };
+}
+
+// Builds a hook linked list from [memoizedState, queue] pairs
+function makeHooks(...entries: [unknown, unknown][]): Hook {
+  const hooks: Hook[] = entries.map(([memoizedState, queue]) => ({
+    memoizedState,
+    queue,
+    next: null,
+  }));
+  hooks.forEach((hook, i) => {
+    hook.next = hooks[i + 1] ?? null;
+  });
+  return hooks[0];
+}
+
+function storeQueue(getSnapshot: () => unknown) {
+  return { value: getSnapshot(), getSnapshot };
+}
+
+describe('getFirstHook', () => {
+  test('returns the head of the hook list', () => {
+    const head = makeHooks([0, null]);
+    expect(getFirstHook(makeFiber({ memoizedState: head }))).toBe(head);
+  });
+
+  test('returns null for fibers without hooks', () => {
+    expect(getFirstHook(makeFiber())).toBeNull();
+    expect(getFirstHook(makeFiber({ memoizedState: { count: 1 } }))).toBeNull();
+    expect(getFirstHook(null)).toBeNull();
+  });
+});
+
+describe('findUnstableStoreHooks', () => {
+  test('finds an uncached getSnapshot whose value changed identity', () => {
+    const getSnapshot = () => ({ data: 'fresh' });
+    const stateQueue = { dispatch: () => {}, pending: null };
+    const alternate = makeFiber({
+      memoizedState: makeHooks([0, stateQueue], [getSnapshot(), storeQueue(getSnapshot)]),
+    });
+    const fiber = makeFiber({
+      alternate,
+      memoizedState: makeHooks([0, stateQueue], [getSnapshot(), storeQueue(getSnapshot)]),
+    });
+
+    expect(findUnstableStoreHooks(fiber)).toEqual([1]);
+  });
+
+  test('ignores a cached getSnapshot even when the value changed (real store update)', () => {
+    let current = { data: 'v1' };
+    const getSnapshot = () => current;
+    const alternate = makeFiber({
+      memoizedState: makeHooks([current, storeQueue(getSnapshot)]),
+    });
+    current = { data: 'v2' };
+    const fiber = makeFiber({
+      alternate,
+      memoizedState: makeHooks([current, storeQueue(getSnapshot)]),
+    });
+
+    expect(findUnstableStoreHooks(fiber)).toEqual([]);
+  });
+
+  test('ignores a getSnapshot that throws', () => {
+    const getSnapshot = () => {
+      throw new Error('store not ready');
+    };
+    const queue = { value: null, getSnapshot };
+    const alternate = makeFiber({ memoizedState: makeHooks([{}, queue]) });
+    const fiber = makeFiber({ alternate, memoizedState: makeHooks([{}, queue]) });
+
+    expect(findUnstableStoreHooks(fiber)).toEqual([]);
+  });
+
+  test('returns nothing without an alternate (mount)', () => {
+    const getSnapshot = () => ({});
+    const fiber = makeFiber({
+      memoizedState: makeHooks([getSnapshot(), storeQueue(getSnapshot)]),
+    });
+
+    expect(findUnstableStoreHooks(fiber)).toEqual([]);
+  });
+
+  test('without compareAlternate, checks every store hook regardless of the alternate', () => {
+    const getSnapshot = () => ({});
+    const value = { data: 'v1' };
+    const cached = () => value;
+    // Only one hook long: the hooks after it are still checked
+    const newer = makeFiber({ memoizedState: makeHooks([value, storeQueue(cached)]) });
+    const fiber = makeFiber({
+      alternate: newer,
+      memoizedState: makeHooks([value, storeQueue(cached)], [getSnapshot(), storeQueue(getSnapshot)]),
+    });
+
+    expect(findUnstableStoreHooks(fiber, false)).toEqual([1]);
+  });
+});
+
+describe('getHookKind', () => {
+  function hook(memoizedState: unknown, queue: unknown = null): Hook {
+    return { memoizedState, queue, next: null };
+  }
+
+  test('tells useState from useReducer by the queued reducer', () => {
+    function basicStateReducer() {}
+    function reducer() {}
+    expect(getHookKind(hook(0, { dispatch() {}, lastRenderedReducer: basicStateReducer }))).toBe('state');
+    expect(getHookKind(hook(0, { dispatch() {}, lastRenderedReducer: reducer }))).toBe('reducer');
+  });
+
+  test('recognises memo, ref and external store hooks', () => {
+    expect(getHookKind(hook([42, [1]]))).toBe('memo');
+    expect(getHookKind(hook([() => {}, null]))).toBe('memo');
+    expect(getHookKind(hook({ current: null }))).toBe('ref');
+    expect(getHookKind(hook('snap', storeQueue(() => 'snap')))).toBe('external-store');
+  });
+
+  test('returns null for effects and unrecognised hooks', () => {
+    expect(getHookKind(hook({ tag: 9, create() {}, deps: null, next: null }))).toBeNull();
+    expect(getHookKind(hook(':r0:'))).toBeNull();
+  });
+});
+
+describe('findChangedHooks', () => {
+  function basicStateReducer() {}
+
+  test('lists hooks whose state changed identity, skipping effects', () => {
+    const queue = { dispatch() {}, lastRenderedReducer: basicStateReducer };
+    const ref = { current: 1 };
+    const alternate = makeFiber({
+      memoizedState: makeHooks(
+        [ref, null],
+        [{ tag: 9, create() {}, deps: null }, null],
+        [0, queue],
+        [['a', [1]], null],
+      ),
+    });
+    const fiber = makeFiber({
+      alternate,
+      memoizedState: makeHooks(
+        [ref, null],
+        [{ tag: 9, create() {}, deps: null }, null],
+        [1, queue],
+        [['b', [2]], null],
+      ),
+    });
+
+    expect(findChangedHooks(fiber)).toEqual([
+      { index: 2, kind: 'state' },
+      { index: 3, kind: 'memo' },
+    ]);
+  });
+
+  test('returns an empty list on mount', () => {
+    const fiber = makeFiber({ memoizedState: makeHooks([0, null]) });
+    expect(findChangedHooks(fiber)).toEqual([]);
+  });
+});
@@ -84,6 +84,40 @@ describe('install', () => {
     expect(result).toBe(1);
   });
 
+  test('inject hands out a new id per renderer', () => {
+    delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+    tracked();
+    const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+    expect(hook.inject!({ version: '18.2.0' })).toBe(1);
+    expect(hook.inject!({ version: '18.2.0' })).toBe(2);
+  });
+
+  test('reads commits with the layout of the renderer that injected', (done) => {
+    delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+    const result = install({ maxCommitsPerTask: 2, breakOnLoop: true });
+    uninstallFns.push(result.uninstall);
+    const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+    const id = hook.inject!({ version: '16.14.0' });
+
+    // React 16 roots schedule with expiration times, not lanes
+    const root = {
+      current: makeFiber(),
+      callbackNode: null,
+      firstPendingTime: 1073741823,
+      callbackExpirationTime: 0,
+    } as unknown as FiberRoot;
+    for (let i = 0; i < 3; i++) {
+      hook.onCommitFiberRoot!(id, root, 0, false);
+    }
+
+    expect(root.firstPendingTime).toBe(0);
+    expect(root.callbackExpirationTime).toBe(1073741823);
+    setTimeout(() => {
+      expect(root.callbackExpirationTime).toBe(0);
+      done();
+    }, 10);
+  });
+
   test('onCommitFiberRoot delegates to existing hook', () => {
     const mockOnCommit = jest.fn();
     window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
@@ -104,6 +138,29 @@ describe('install', () => {
     expect(mockOnCommit).toHaveBeenCalledWith(1, root, 0, false);
   });
 
+  test('onCommitFiberRoot passes didError through to loop detection', (done) => {
+    delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+    const onLoop = jest.fn();
+    const result = install({ onLoop, maxErrorCommits: 2, breakOnLoop: false });
+    uninstallFns.push(result.uninstall);
+
+    const root: FiberRoot = {
+      current: makeFiber(),
+      pendingLanes: 0,
+      callbackPriority: 0,
+      callbackNode: null,
+    };
+    for (let i = 0; i < 3; i++) {
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__!.onCommitFiberRoot!(1, root, 0, true);
+    }
+
+    setTimeout(() => {
+      expect(onLoop).toHaveBeenCalledTimes(1);
+      expect((onLoop.mock.calls[0][0] as LoopReport).pattern).toBe('error-boundary-loop');
+      done();
+    }, 10);
+  });
+
   test('onPostCommitFiberRoot delegates to existing hook', () => {
     const mockOnPost = jest.fn();
     window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
@@ -266,4 +323,374 @@ describe('install', () => {
 
     performance.now = origNow;
   });
+
+  test('configure, pause and resume reach the detector without unhooking', (done) => {
+    delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+    const onLoop = jest.fn();
+    const observer = install({ breakOnLoop: false });
+    uninstallFns.push(observer.uninstall);
+    const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+    const { onCommitFiberRoot } = hook;
+    observer.configure({ onLoop, maxCommitsPerTask: 2 });
+
+    const root: FiberRoot = { current: makeFiber(), pendingLanes: 0, callbackPriority: 0, callbackNode: null };
+    observer.pause();
+    for (let i = 0; i < 3; i++) {
+      hook.onCommitFiberRoot!(1, root, 0, false);
+    }
+    expect(hook.onCommitFiberRoot).toBe(onCommitFiberRoot);
+
+    observer.resume();
+    for (let i = 0; i < 3; i++) {
+      hook.onCommitFiberRoot!(1, root, 0, false);
+    }
+
+    setTimeout(() => {
+      expect(onLoop).toHaveBeenCalledTimes(1);
+      expect((onLoop.mock.calls[0][0] as LoopReport).commitCount).toBe(3);
+      done();
+    }, 10);
+  });
+
+  describe('late install', () => {
+    function makeLoadedHook(version = '18.2.0', roots: FiberRoot[] = []) {
+      return {
+        supportsFiber: true,
+        renderers: new Map([[1, { version }]]),
+        getFiberRoots: jest.fn(() => new Set(roots)),
+        inject: jest.fn().mockReturnValue(2),
+        onCommitFiberRoot: jest.fn(),
+        onPostCommitFiberRoot: jest.fn(),
+        onCommitFiberUnmount: jest.fn(),
+      };
+    }
+
+    function makeRootWithEffects(pendingLanes = 0): FiberRoot {
+      const child = makeFiber({ type: function Inner() {}, flags: 36 });
+      return {
+        current: makeFiber({ type: function Test() {}, flags: 36, subtreeFlags: 36, child }),
+        pendingLanes,
+        callbackPriority: 0,
+        callbackNode: null,
+      };
+    }
+
+    test('wraps a hook that already has renderers in place', () => {
+      const hook = makeLoadedHook();
+      const { onCommitFiberRoot } = hook;
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+      const result = install({ maxCommitsPerTask: 3, breakOnLoop: true });
+      uninstallFns.push(result.uninstall);
+
+      expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(hook);
+      expect(hook.onCommitFiberRoot).not.toBe(onCommitFiberRoot);
+
+      const root = makeRootWithEffects(1);
+      for (let i = 0; i < 5; i++) {
+        hook.onCommitFiberRoot(1, root, 0, false);
+      }
+      expect(onCommitFiberRoot).toHaveBeenCalledTimes(5);
+      expect(onCommitFiberRoot).toHaveBeenCalledWith(1, root, 0, false);
+      expect(root.pendingLanes).toBe(0);
+    });
+
+    test('reads commits with the version of renderers that injected before install', () => {
+      const hook = makeLoadedHook('16.14.0');
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+      const result = install({ maxCommitsPerTask: 2, breakOnLoop: true });
+      uninstallFns.push(result.uninstall);
+
+      const root = {
+        current: makeFiber(),
+        callbackNode: null,
+        firstPendingTime: 1073741823,
+        callbackExpirationTime: 0,
+      } as unknown as FiberRoot;
+      for (let i = 0; i < 3; i++) {
+        hook.onCommitFiberRoot(1, root, 0, false);
+      }
+      expect(root.firstPendingTime).toBe(0);
+    });
+
+    test('tracks roots mounted before install from their first commit', (done) => {
+      const existingRoot = makeRootWithEffects();
+      const hook = makeLoadedHook('18.2.0', [existingRoot]);
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+      const onLoop = jest.fn();
+      const result = install({ onLoop, maxCommitsPerTask: 3, breakOnLoop: false });
+      uninstallFns.push(result.uninstall);
+      expect(hook.getFiberRoots).toHaveBeenCalledWith(1);
+
+      // A root mounted after install commits first, yet the existing root kept
+      // the id it was given when the observer found it
+      const newRoot = makeRootWithEffects();
+      hook.onCommitFiberRoot(1, newRoot, 0, false);
+      for (let i = 0; i < 5; i++) {
+        hook.onCommitFiberRoot(1, existingRoot, 0, false);
+      }
+
+      setTimeout(() => {
+        expect(onLoop).toHaveBeenCalledTimes(1);
+        expect((onLoop.mock.calls[0][0] as LoopReport).rootId).toBe(1);
+        done();
+      }, 10);
+    });
+
+    test('registers renderers that inject after install', () => {
+      const hook = makeLoadedHook();
+      const { inject } = hook;
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+      const result = install();
+      uninstallFns.push(result.uninstall);
+
+      expect(hook.inject({ version: '19.0.0' })).toBe(2);
+      expect(inject).toHaveBeenCalledWith({ version: '19.0.0' });
+    });
+
+    test('uninstall restores the wrapped methods', () => {
+      const hook = makeLoadedHook();
+      const { inject, onCommitFiberRoot } = hook;
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+
+      install().uninstall();
+      expect(hook.inject).toBe(inject);
+      expect(hook.onCommitFiberRoot).toBe(onCommitFiberRoot);
+    });
+
+    test('attach: false replaces the hook even when React has loaded', () => {
+      const hook = makeLoadedHook();
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+      const result = install({ attach: false });
+      uninstallFns.push(result.uninstall);
+
+      expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).not.toBe(hook);
+    });
+
+    test('attach: true wraps a hook without renderers', () => {
+      const hook = { inject: jest.fn().mockReturnValue(1), onCommitFiberRoot: jest.fn() };
+      const { onCommitFiberRoot } = hook;
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+      const result = install({ attach: true });
+      uninstallFns.push(result.uninstall);
+
+      expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(hook);
+      expect(hook.onCommitFiberRoot).not.toBe(onCommitFiberRoot);
+    });
+  });
+
+  describe('multiple observers', () => {
+    function makeLoopingRoot(): FiberRoot {
+      const child = makeFiber({ type: function Inner() {}, flags: 36 });
+      return {
+        // Rendering an element: the hook tracks it as mounted
+        current: makeFiber({ type: function Test() {}, flags: 36, subtreeFlags: 36, child, memoizedState: { element: {} } }),
+        pendingLanes: 0,
+        callbackPriority: 0,
+        callbackNode: null,
+      };
+    }
+
+    function installTracked(config: Parameters<typeof install>[0]) {
+      const result = install(config);
+      uninstallFns.push(result.uninstall);
+      return result;
+    }
+
+    test('later installs join the hook instead of wrapping it again', () => {
+      delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+      installTracked({});
+      const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+      const { inject, onCommitFiberRoot } = hook;
+      installTracked({});
+
+      expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(hook);
+      expect(hook.inject).toBe(inject);
+      expect(hook.onCommitFiberRoot).toBe(onCommitFiberRoot);
+      expect(hook.inject!({ version: '18.2.0' })).toBe(1);
+    });
+
+    test('each observer reports with its own config', (done) => {
+      delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+      const strict = jest.fn();
+      const lenient = jest.fn();
+      installTracked({ onLoop: strict, maxCommitsPerTask: 3, breakOnLoop: false });
+      installTracked({ onLoop: lenient, maxCommitsPerTask: 10, breakOnLoop: false });
+      const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+
+      const root = makeLoopingRoot();
+      for (let i = 0; i < 5; i++) {
+        hook.onCommitFiberRoot!(1, root, 0, false);
+      }
+
+      setTimeout(() => {
+        expect(strict).toHaveBeenCalledTimes(1);
+        expect(lenient).not.toHaveBeenCalled();
+        done();
+      }, 10);
+    });
+
+    test('an observer that joins later tracks roots that already committed', (done) => {
+      delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+      installTracked({});
+      const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+      const id = hook.inject!({ version: '18.2.0' });
+      const existingRoot = makeLoopingRoot();
+      hook.onCommitFiberRoot!(id, existingRoot, 0, false);
+
+      const onLoop = jest.fn();
+      installTracked({ onLoop, maxCommitsPerTask: 3, breakOnLoop: false });
+      hook.onCommitFiberRoot!(id, makeLoopingRoot(), 0, false);
+      for (let i = 0; i < 5; i++) {
+        hook.onCommitFiberRoot!(id, existingRoot, 0, false);
+      }
+
+      setTimeout(() => {
+        expect(onLoop).toHaveBeenCalledTimes(1);
+        expect((onLoop.mock.calls[0][0] as LoopReport).rootId).toBe(1);
+        done();
+      }, 10);
+    });
+
+    test('uninstalling one observer leaves the others running, in any order', (done) => {
+      const previousHook = { inject: jest.fn().mockReturnValue(1), onCommitFiberRoot: jest.fn() };
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = previousHook;
+      const first = jest.fn();
+      const second = jest.fn();
+      const firstObserver = installTracked({ onLoop: first, maxCommitsPerTask: 3, breakOnLoop: false });
+      const secondObserver = installTracked({ onLoop: second, maxCommitsPerTask: 3, breakOnLoop: false });
+      const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+
+      firstObserver.uninstall();
+      expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(hook);
+      const root = makeLoopingRoot();
+      for (let i = 0; i < 5; i++) {
+        hook.onCommitFiberRoot!(1, root, 0, false);
+      }
+
+      setTimeout(() => {
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalledTimes(1);
+        // A second call must not take another observer with it
+        firstObserver.uninstall();
+        expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(hook);
+        secondObserver.uninstall();
+        expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(previousHook);
+        done();
+      }, 10);
+    });
+
+    test('a later install rejoins the hook React injected into', () => {
+      delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+      const first = install();
+      const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+      const id = hook.inject!({ version: '18.2.0' });
+      const root = makeLoopingRoot();
+      hook.onCommitFiberRoot!(id, root, 0, false);
+      first.uninstall();
+
+      // React still holds our hook, so it stays installed
+      expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(hook);
+      const second = installTracked({ attach: true });
+      hook.onCommitFiberRoot!(id, root, 0, false);
+      expect(second.getRoots()).toMatchObject([{ root, rendererId: id, rendererVersion: '18.2.0', commitCount: 1 }]);
+    });
+
+    test('uninstall leaves a hook installed after ours in place', () => {
+      delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+      const observer = installTracked({});
+      const ourHook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+      const laterHook = { ...ourHook, onCommitFiberRoot: jest.fn(ourHook.onCommitFiberRoot) };
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = laterHook;
+
+      observer.uninstall();
+      expect(window.__REACT_DEVTOOLS_GLOBAL_HOOK__).toBe(laterHook);
+      // Our hook stays in the chain as a pass-through
+      expect(() => laterHook.onCommitFiberRoot(1, makeLoopingRoot(), 0, false)).not.toThrow();
+    });
+  });
+
+  describe('getRoots', () => {
+    function makeMountedRoot(tag: number): FiberRoot {
+      return {
+        current: makeFiber({ memoizedState: { element: {} } }),
+        tag,
+        pendingLanes: 0,
+        callbackPriority: 0,
+        callbackNode: null,
+      };
+    }
+
+    test('lists mounted roots with their renderer and counts', () => {
+      delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+      const observer = install();
+      uninstallFns.push(observer.uninstall);
+      const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+      const domId = hook.inject!({ version: '18.2.0', rendererPackageName: 'react-dom' });
+      const testId = hook.inject!({ version: '17.0.2' });
+
+      const legacyRoot = makeMountedRoot(0);
+      const concurrentRoot = makeMountedRoot(1);
+      hook.onCommitFiberRoot!(testId, legacyRoot, 0, false);
+      hook.onCommitFiberRoot!(domId, concurrentRoot, 0, false);
+      hook.onCommitFiberRoot!(domId, concurrentRoot, 0, false);
+
+      expect(observer.getRoots()).toEqual([
+        {
+          id: 1,
+          root: legacyRoot,
+          rendererId: testId,
+          rendererName: null,
+          rendererVersion: '17.0.2',
+          mode: 'legacy',
+          commitCount: 1,
+          loopCount: 0,
+          frozen: false,
+        },
+        {
+          id: 2,
+          root: concurrentRoot,
+          rendererId: domId,
+          rendererName: 'react-dom',
+          rendererVersion: '18.2.0',
+          mode: 'concurrent',
+          commitCount: 2,
+          loopCount: 0,
+          frozen: false,
+        },
+      ]);
+    });
+
+    test('drops unmounted roots, and everything once uninstalled', () => {
+      delete window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+      const observer = install();
+      uninstallFns.push(observer.uninstall);
+      const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__!;
+      const id = hook.inject!({ version: '18.2.0' });
+      const root = makeMountedRoot(1);
+      const unmounted = makeMountedRoot(1);
+      hook.onCommitFiberRoot!(id, root, 0, false);
+      hook.onCommitFiberRoot!(id, unmounted, 0, false);
+
+      unmounted.current = makeFiber({ memoizedState: { element: null } });
+      hook.onCommitFiberRoot!(id, unmounted, 0, false);
+      expect(observer.getRoots().map((info) => info.root)).toEqual([root]);
+
+      observer.uninstall();
+      expect(observer.getRoots()).toEqual([]);
+    });
+
+    test('reads roots from a hook that was already loaded', () => {
+      const root = makeMountedRoot(1);
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
+        renderers: new Map([[1, { version: '19.0.0', rendererPackageName: 'react-dom' }]]),
+        getFiberRoots: () => new Set([root]),
+        inject: jest.fn(),
+        onCommitFiberRoot: jest.fn(),
+      };
+      const observer = install();
+      uninstallFns.push(observer.uninstall);
+
+      expect(observer.getRoots()).toMatchObject([{ id: 1, root, rendererName: 'react-dom', commitCount: 0 }]);
+    });
+  });
 });
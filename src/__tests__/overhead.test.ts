@@ -0,0 +1,83 @@
+import { createOverheadMeter } from '../overhead';
+import { OVERHEAD_WINDOW_MS } from '../constants';
+
+describe('createOverheadMeter', () => {
+  let originalPerformanceNow: typeof performance.now;
+  let now: number;
+
+  beforeEach(() => {
+    originalPerformanceNow = performance.now;
+    now = 0;
+    performance.now = () => now;
+  });
+
+  afterEach(() => {
+    performance.now = originalPerformanceNow;
+  });
+
+  test('attributes measured time to its category', () => {
+    const meter = createOverheadMeter();
+
+    const result = meter.measure('walk', () => {
+      now += 3;
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(meter.getStats('full')).toMatchObject({ walkMs: 3, stackMs: 0, classifyMs: 0, callbackMs: 0 });
+  });
+
+  test('subtracts nested measurements from the outer category', () => {
+    const meter = createOverheadMeter();
+
+    meter.measure('classify', () => {
+      now += 1;
+      meter.measure('callback', () => {
+        now += 5;
+      });
+      now += 2;
+    });
+
+    expect(meter.getStats('full')).toMatchObject({ classifyMs: 3, callbackMs: 5 });
+  });
+
+  test('records time even when the measured function throws', () => {
+    const meter = createOverheadMeter();
+
+    expect(() =>
+      meter.measure('callback', () => {
+        now += 4;
+        throw new Error('boom');
+      })
+    ).toThrow('boom');
+    expect(meter.getStats('full').callbackMs).toBe(4);
+  });
+
+  test('record sums time within a window and starts over after it', () => {
+    const meter = createOverheadMeter();
+
+    expect(meter.record(2, 1000)).toBe(2);
+    expect(meter.record(3, 1500)).toBe(5);
+    expect(meter.record(1, 1000 + OVERHEAD_WINDOW_MS)).toBe(1);
+    expect(meter.getStats('full').totalMs).toBe(6);
+  });
+
+  test('resetWindow clears the window but keeps totals', () => {
+    const meter = createOverheadMeter();
+
+    meter.record(4, 1000);
+    meter.resetWindow(1100);
+
+    expect(meter.record(1, 1200)).toBe(1);
+    expect(meter.getStats('no-flush')).toMatchObject({ totalMs: 5, level: 'no-flush' });
+  });
+
+  test('counts commits', () => {
+    const meter = createOverheadMeter();
+
+    meter.countCommit();
+    meter.countCommit();
+
+    expect(meter.getStats('full').commits).toBe(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { getReactAdapter, getFiberFlags, hasPendingSyncWork, DEFAULT_REACT_ADAPTER } from '../react-version';
+import { FunctionComponent } from '../constants';
+import type { Fiber, FiberRoot } from '../types';
+
+function makeFiber(overrides: Partial<Fiber> = {}): Fiber {
+  return {
+    tag: FunctionComponent,
+    type: function Mock() {},
+    flags: 0,
+    subtreeFlags: 0,
+    lanes: 0,
+    childLanes: 0,
+    child: null,
+    sibling: null,
+    ...overrides,
+  };
+}
+
+function makeRoot(overrides: Partial<FiberRoot> = {}): FiberRoot {
+  return { current: makeFiber(), pendingLanes: 0, callbackPriority: 0, callbackNode: null, ...overrides };
+}
+
+describe('getReactAdapter', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test.each([
+    ['16.8.6', '16.8'],
+    ['16.12.0', '16.8'],
+    ['16.13.1', '16.13'],
+    ['16.14.0', '16.13'],
+    ['17.0.2', '17'],
+    ['18.3.1', '18'],
+    ['19.0.0', '19'],
+    ['19.1.0-canary-2f0e7e57-20250101', '19'],
+  ])('selects the layout of React %s', (version, expected) => {
+    expect(getReactAdapter(version).version).toBe(expected);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test('uses the default layout when the renderer has no version', () => {
+    expect(getReactAdapter(undefined)).toBe(DEFAULT_REACT_ADAPTER);
+  });
+
+  test('reads newer and unparseable versions as the newest layout, with a warning', () => {
+    expect(getReactAdapter('20.0.0').version).toBe('19');
+    expect(getReactAdapter('0.0.0-experimental-abc').version).toBe('19');
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0][0]).toContain('React 20.0.0 is outside the supported range');
+  });
+
+  test('reads versions older than hooks as the oldest layout', () => {
+    expect(getReactAdapter('16.4.2').version).toBe('16.8');
+    expect(getReactAdapter('15.6.2').version).toBe('16.8');
+  });
+
+  test('warns once per version', () => {
+    getReactAdapter('21.0.0');
+    getReactAdapter('21.0.0');
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  test('React 16 and 17 share flag bits that React 18 renumbered', () => {
+    const react16 = getReactAdapter('16.14.0');
+    const react17 = getReactAdapter('17.0.2');
+    const react18 = getReactAdapter('18.2.0');
+    expect(react17.flags).toEqual(react16.flags);
+    expect(react17.flags.Passive).toBe(512);
+    expect(react18.flags.Passive).toBe(2048);
+    expect(react17.flags.DidCapture).toBe(64);
+    expect(react18.flags.DidCapture).toBe(128);
+  });
+});
+
+describe('getFiberFlags', () => {
+  test('reads effectTag on React 16 and flags afterwards', () => {
+    const fiber = makeFiber({ flags: 4, effectTag: 512 });
+    expect(getFiberFlags(fiber, getReactAdapter('16.14.0'))).toBe(512);
+    expect(getFiberFlags(fiber, getReactAdapter('17.0.2'))).toBe(4);
+  });
+});
+
+describe('hasPendingSyncWork', () => {
+  test('checks the sync lane of each version', () => {
+    const root = makeRoot({ pendingLanes: 0b0001 });
+    expect(hasPendingSyncWork(root, getReactAdapter('18.2.0'))).toBe(true);
+    // SyncHydrationLane on React 19
+    expect(hasPendingSyncWork(root, getReactAdapter('19.0.0'))).toBe(false);
+    expect(hasPendingSyncWork(makeRoot({ pendingLanes: 0b0010 }), getReactAdapter('19.0.0'))).toBe(true);
+  });
+
+  test('compares expiration times on React 16', () => {
+    const react16 = getReactAdapter('16.14.0');
+    expect(hasPendingSyncWork(makeRoot({ firstPendingTime: 1073741823 }), react16)).toBe(true);
+    expect(hasPendingSyncWork(makeRoot({ firstPendingTime: 1073741000 }), react16)).toBe(false);
+    expect(hasPendingSyncWork(makeRoot({ pendingLanes: 1 }), react16)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { getRenderReason } from '../render-reason';
+import { FunctionComponent, ClassComponent } from '../constants';
+import type { Fiber, ContextDependency, ReactContext } from '../types';
+
+function makeFiber(overrides: Partial<Fiber> = {}): Fiber {
+  return {
+    tag: FunctionComponent,
+    type: function MockComponent() {},
+    flags: 0,
+    subtreeFlags: 0,
+    lanes: 0,
+    childLanes: 0,
+    child: null,
+    sibling: null,
+    ...overrides,
+  };
+}
+
+// Builds a context dependency list from [context, value] pairs
+function makeDependencies(...entries: [ReactContext, unknown][]): Fiber['dependencies'] {
+  const dependencies: ContextDependency[] = entries.map(([context, memoizedValue]) => ({
+    context,
+    memoizedValue,
+    next: null,
+  }));
+  dependencies.forEach((dependency, i) => {
+    dependency.next = dependencies[i + 1] ?? null;
+  });
+  return { firstContext: dependencies[0] ?? null };
+}
+
+describe('getRenderReason', () => {
+  test('returns null on mount', () => {
+    expect(getRenderReason(makeFiber({ memoizedProps: {} }), [])).toBeNull();
+  });
+
+  test('returns null for a bailed-out fiber', () => {
+    const props = { id: 1 };
+    const state = { memoizedState: 0, next: null };
+    const alternate = makeFiber({ memoizedProps: props, memoizedState: state });
+    const fiber = makeFiber({ alternate, memoizedProps: props, memoizedState: state });
+    expect(getRenderReason(fiber, [])).toBeNull();
+  });
+
+  test('reports state with the changed hooks', () => {
+    const alternate = makeFiber({ memoizedState: { memoizedState: 0, next: null } });
+    const fiber = makeFiber({ alternate, memoizedState: { memoizedState: 1, next: null } });
+    const changedHooks = [{ index: 0, kind: 'state' as const }];
+    expect(getRenderReason(fiber, changedHooks)).toEqual({ kind: 'state', changedHooks });
+  });
+
+  test('a cloned hook list with unchanged values is not a state change', () => {
+    const queue = { dispatch: () => {}, lastRenderedReducer: () => {} };
+    // React copies every hook object on each render, keeping their values
+    const alternate = makeFiber({
+      memoizedProps: { label: 'a' },
+      memoizedState: { memoizedState: 0, queue, next: null },
+    });
+    const fiber = makeFiber({
+      alternate,
+      memoizedProps: { label: 'b' },
+      memoizedState: { memoizedState: 0, queue, next: null },
+    });
+    expect(getRenderReason(fiber, [])).toEqual({ kind: 'props', changedKeys: ['label'] });
+  });
+
+  test('reports new class component state', () => {
+    const props = { id: 1 };
+    const alternate = makeFiber({ tag: ClassComponent, memoizedProps: props, memoizedState: { open: false } });
+    const fiber = makeFiber({ tag: ClassComponent, alternate, memoizedProps: props, memoizedState: { open: true } });
+    expect(getRenderReason(fiber, [])).toEqual({ kind: 'state', changedHooks: [] });
+  });
+
+  test('reports the provider of a changed context', () => {
+    const Theme: ReactContext = { displayName: 'Theme' };
+    const User: ReactContext = {};
+    const alternate = makeFiber({
+      memoizedProps: {},
+      dependencies: makeDependencies([Theme, 'dark'], [User, 'ann']),
+    });
+    const fiber = makeFiber({
+      alternate,
+      memoizedProps: {},
+      dependencies: makeDependencies([Theme, 'dark'], [User, 'bob']),
+    });
+    expect(getRenderReason(fiber, [])).toEqual({ kind: 'context', providerName: 'Context.Provider' });
+
+    fiber.dependencies = makeDependencies([Theme, 'light'], [User, 'ann']);
+    expect(getRenderReason(fiber, [])).toEqual({ kind: 'context', providerName: 'Theme.Provider' });
+  });
+
+  test('lists the props that changed', () => {
+    const onClick = () => {};
+    const alternate = makeFiber({ memoizedProps: { id: 1, onClick, hidden: true } });
+    const fiber = makeFiber({ alternate, memoizedProps: { id: 2, onClick, label: 'x' } });
+    expect(getRenderReason(fiber, [])).toEqual({
+      kind: 'props',
+      changedKeys: ['id', 'hidden', 'label'],
+    });
+  });
+
+  test('reports a parent re-render for a new but equal props object', () => {
+    const alternate = makeFiber({ memoizedProps: { id: 1 } });
+    const fiber = makeFiber({ alternate, memoizedProps: { id: 1 } });
+    expect(getRenderReason(fiber, [])).toEqual({ kind: 'parent' });
+  });
+});
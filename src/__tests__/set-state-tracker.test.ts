@@ -0,0 +1,165 @@
+import { createSetStateTracker } from '../set-state-tracker';
+import { FunctionComponent, ClassComponent, ForwardRef, SimpleMemoComponent } from '../constants';
+import type { Fiber, FiberRoot, Hook } from '../types';
+
+function makeFiber(overrides: Partial<Fiber> = {}): Fiber {
+  return {
+    tag: FunctionComponent,
+    type: function Counter() {},
+    flags: 0,
+    subtreeFlags: 0,
+    lanes: 0,
+    childLanes: 0,
+    child: null,
+    sibling: null,
+    ...overrides,
+  };
+}
+
+function makeRoot(): FiberRoot {
+  return { current: makeFiber(), pendingLanes: 0, callbackPriority: 0, callbackNode: null };
+}
+
+// Builds a hook linked list from queue objects (memoizedState is irrelevant here)
+function makeHooks(...queues: unknown[]): Hook {
+  const hooks: Hook[] = queues.map((queue) => ({ memoizedState: 0, queue, next: null }));
+  hooks.forEach((hook, i) => {
+    hook.next = hooks[i + 1] ?? null;
+  });
+  return hooks[0];
+}
+
+function stateQueue(dispatch: (...args: unknown[]) => unknown = jest.fn()) {
+  return { dispatch, lastRenderedReducer: () => {}, pending: null };
+}
+
+describe('createSetStateTracker', () => {
+  test('records useState dispatch calls with hook index and call site', () => {
+    const tracker = createSetStateTracker();
+    const root = makeRoot();
+    const original = jest.fn();
+    const effectQueue = { lastEffect: null };
+    const queue = stateQueue(original);
+    const fiber = makeFiber({ memoizedState: makeHooks(effectQueue, queue) });
+
+    tracker.instrument(root, fiber);
+    queue.dispatch(5);
+
+    expect(original).toHaveBeenCalledWith(5);
+    const calls = tracker.drain(root);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].componentName).toBe('Counter');
+    expect(calls[0].hookIndex).toBe(1);
+    expect(calls[0].location?.fileName).toContain('set-state-tracker.test.ts');
+    expect(calls[0].stack).not.toContain('captureStack');
+  });
+
+  test('records dispatch calls of memo and forwardRef components', () => {
+    const tracker = createSetStateTracker();
+    const root = makeRoot();
+    const memoQueue = stateQueue();
+    const forwardRefQueue = stateQueue();
+    // A memo() fiber's type is the wrapped function; forwardRef's is an object
+    tracker.instrument(root, makeFiber({
+      tag: SimpleMemoComponent,
+      type: function Row() {},
+      memoizedState: makeHooks(memoQueue),
+    }));
+    tracker.instrument(root, makeFiber({
+      tag: ForwardRef,
+      type: { render: function TextField() {} },
+      memoizedState: makeHooks(forwardRefQueue),
+    }));
+
+    memoQueue.dispatch(1);
+    forwardRefQueue.dispatch(2);
+    expect(tracker.drain(root).map((call) => call.componentName)).toEqual(['Row', 'TextField']);
+  });
+
+  test('drain clears recorded calls', () => {
+    const tracker = createSetStateTracker();
+    const root = makeRoot();
+    const queue = stateQueue();
+    tracker.instrument(root, makeFiber({ memoizedState: makeHooks(queue) }));
+
+    queue.dispatch(1);
+    expect(tracker.drain(root)).toHaveLength(1);
+    expect(tracker.drain(root)).toEqual([]);
+  });
+
+  test('does not wrap a dispatcher twice', () => {
+    const tracker = createSetStateTracker();
+    const root = makeRoot();
+    const queue = stateQueue();
+    const fiber = makeFiber({ memoizedState: makeHooks(queue) });
+
+    tracker.instrument(root, fiber);
+    const wrapped = queue.dispatch;
+    tracker.instrument(root, fiber);
+    expect(queue.dispatch).toBe(wrapped);
+
+    queue.dispatch(1);
+    expect(tracker.drain(root)).toHaveLength(1);
+  });
+
+  test('keeps only the most recent calls per root', () => {
+    const tracker = createSetStateTracker();
+    const root = makeRoot();
+    const queue = stateQueue();
+    tracker.instrument(root, makeFiber({ memoizedState: makeHooks(queue) }));
+
+    for (let i = 0; i < 60; i++) {
+      queue.dispatch(i);
+    }
+    expect(tracker.drain(root)).toHaveLength(50);
+  });
+
+  test('records class setState through a per-instance updater', () => {
+    const tracker = createSetStateTracker();
+    const root = makeRoot();
+    const sharedUpdater = { enqueueSetState: jest.fn(), enqueueForceUpdate: jest.fn() };
+    class Legacy {
+      updater = sharedUpdater;
+    }
+    const instance = new Legacy();
+    const other = new Legacy();
+    tracker.instrument(root, makeFiber({ tag: ClassComponent, type: Legacy, stateNode: instance }));
+
+    instance.updater.enqueueSetState(instance, { open: true }, null, 'setState');
+
+    expect(sharedUpdater.enqueueSetState).toHaveBeenCalledWith(instance, { open: true }, null, 'setState');
+    // The renderer-wide updater itself is left untouched
+    expect(other.updater).toBe(sharedUpdater);
+    expect(instance.updater.enqueueForceUpdate).toBe(sharedUpdater.enqueueForceUpdate);
+    const calls = tracker.drain(root);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].componentName).toBe('Legacy');
+    expect(calls[0].hookIndex).toBeNull();
+  });
+
+  test('keeps calls separate per root', () => {
+    const tracker = createSetStateTracker();
+    const rootA = makeRoot();
+    const rootB = makeRoot();
+    const queueA = stateQueue();
+    tracker.instrument(rootA, makeFiber({ memoizedState: makeHooks(queueA) }));
+
+    queueA.dispatch(1);
+    expect(tracker.drain(rootB)).toEqual([]);
+    expect(tracker.drain(rootA)).toHaveLength(1);
+  });
+
+  test('wrappers pass through without recording after dispose', () => {
+    const tracker = createSetStateTracker();
+    const root = makeRoot();
+    const original = jest.fn();
+    const queue = stateQueue(original);
+    tracker.instrument(root, makeFiber({ memoizedState: makeHooks(queue) }));
+
+    tracker.dispose();
+    queue.dispatch(1);
+
+    expect(original).toHaveBeenCalledWith(1);
+    expect(tracker.drain(root)).toEqual([]);
+  });
+});
@@ -1,4 +1,95 @@
-import { parseUserFrame, findObserverInStack } from '../stack-parser';
+import { parseStack, parseUserFrame, findObserverInStack, createFrameFilter, filterUserFrames } from '../stack-parser';
+
+describe('parseStack', () => {
+  test('parses V8 frames, skipping the message line', () => {
+    const stack = [
+      'Error: setState @ render',
+      '    at Object.handleClick (http://localhost:5173/src/MyComponent.jsx:9:6)',
+      '    at http://localhost:5173/src/main.jsx:3:1',
+      '    at new Store (/app/src/store.ts:12:5)',
+      '    at Array.forEach (<anonymous>)',
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { functionName: 'Object.handleClick', fileName: 'http://localhost:5173/src/MyComponent.jsx', lineNumber: 9, columnNumber: 6, isEval: false, isAsync: false },
+      { functionName: null, fileName: 'http://localhost:5173/src/main.jsx', lineNumber: 3, columnNumber: 1, isEval: false, isAsync: false },
+      { functionName: 'new Store', fileName: '/app/src/store.ts', lineNumber: 12, columnNumber: 5, isEval: false, isAsync: false },
+      { functionName: 'Array.forEach', fileName: '<anonymous>', lineNumber: null, columnNumber: null, isEval: false, isAsync: false },
+    ]);
+  });
+
+  test('parses V8 async and eval frames', () => {
+    const stack = [
+      'Error',
+      '    at async loadUser (http://localhost:5173/src/api.ts:20:3)',
+      '    at eval (eval at compile (http://localhost:5173/src/plugin.js:40:12), <anonymous>:1:5)',
+    ].join('\n');
+
+    const [asyncFrame, evalFrame] = parseStack(stack);
+    expect(asyncFrame).toMatchObject({ functionName: 'loadUser', fileName: 'http://localhost:5173/src/api.ts', lineNumber: 20, isAsync: true });
+    expect(evalFrame).toEqual({
+      functionName: 'eval',
+      fileName: 'http://localhost:5173/src/plugin.js',
+      lineNumber: 40,
+      columnNumber: 12,
+      isEval: true,
+      isAsync: false,
+    });
+  });
+
+  test('parses SpiderMonkey frames', () => {
+    const stack = [
+      'handleCommit@http://localhost:5173/node_modules/.vite/deps/react-flush-observer.js:132:43',
+      'Header/<@http://localhost:5173/src/Header.jsx:14:9',
+      'async*loadUser@http://localhost:5173/src/api.ts:20:3',
+      '@http://localhost:5173/src/main.jsx:3:1',
+      'compile@http://localhost:5173/src/plugin.js line 40 > eval:1:5',
+      '',
+    ].join('\n');
+
+    const frames = parseStack(stack);
+    expect(frames).toHaveLength(5);
+    expect(frames[1]).toEqual({ functionName: 'Header', fileName: 'http://localhost:5173/src/Header.jsx', lineNumber: 14, columnNumber: 9, isEval: false, isAsync: false });
+    expect(frames[2]).toMatchObject({ functionName: 'loadUser', isAsync: true });
+    expect(frames[3]).toMatchObject({ functionName: null, fileName: 'http://localhost:5173/src/main.jsx', lineNumber: 3 });
+    expect(frames[4]).toEqual({ functionName: 'compile', fileName: 'http://localhost:5173/src/plugin.js', lineNumber: 40, columnNumber: null, isEval: true, isAsync: false });
+  });
+
+  test('parses JavaScriptCore frames', () => {
+    const stack = [
+      'dispatchSetState@http://localhost:5173/node_modules/.vite/deps/react-dom.js:12450:14',
+      'forEach@[native code]',
+      'eval code@',
+      'global code@http://localhost:5173/src/main.jsx:3:1',
+      'http://localhost:5173/src/anonymous.js:7:2',
+    ].join('\n');
+
+    const frames = parseStack(stack);
+    expect(frames.map((f) => f.functionName)).toEqual(['dispatchSetState', 'forEach', null, null, null]);
+    expect(frames[1]).toMatchObject({ fileName: '[native code]', lineNumber: null });
+    expect(frames[2]).toMatchObject({ isEval: true, fileName: null });
+    expect(frames[4]).toMatchObject({ fileName: 'http://localhost:5173/src/anonymous.js', lineNumber: 7, columnNumber: 2 });
+  });
+
+  test('keeps @ inside file URLs', () => {
+    const frames = parseStack('Menu@http://localhost:5173/@fs/app/node_modules/@acme/ui/menu.js:5:1');
+    expect(frames[0]).toMatchObject({
+      functionName: 'Menu',
+      fileName: 'http://localhost:5173/@fs/app/node_modules/@acme/ui/menu.js',
+      lineNumber: 5,
+    });
+  });
+
+  test('ignores message lines containing @', () => {
+    expect(parseStack('Error: invalid email user@example.com\n    at submit (/app/src/Form.tsx:8:3)')).toHaveLength(1);
+  });
+
+  test('returns no frames for null or empty stack', () => {
+    expect(parseStack(null)).toEqual([]);
+    expect(parseStack('')).toEqual([]);
+  });
+});
+
 
 describe('parseUserFrame', () => {
   test('extracts first user-code frame from a V8 stack string', () => {
@@ -68,6 +159,29 @@ describe('parseUserFrame', () => {
     expect(parseUserFrame('')).toBeNull();
   });
 
+  test('extracts the first user frame from a Firefox stack', () => {
+    const stack = [
+      'handleCommit@http://localhost:5173/node_modules/.vite/deps/react-flush-observer.js:132:43',
+      'dispatchSetState@http://localhost:5173/node_modules/.vite/deps/react-dom.js:12450:14',
+      'handleClick@http://localhost:5173/src/MyComponent.jsx:9:6',
+    ].join('\n');
+
+    expect(parseUserFrame(stack)).toEqual({
+      fileName: 'http://localhost:5173/src/MyComponent.jsx',
+      lineNumber: 9,
+      columnNumber: 6,
+    });
+  });
+
+  test('skips native frames without a location', () => {
+    const stack = [
+      'forEach@[native code]',
+      'onClick@http://localhost:5173/src/Button.tsx:12:4',
+    ].join('\n');
+
+    expect(parseUserFrame(stack)).toMatchObject({ fileName: 'http://localhost:5173/src/Button.tsx' });
+  });
+
   test('handles anonymous frames with file location', () => {
     const stack = [
       'Error',
@@ -85,6 +199,56 @@ describe('parseUserFrame', () => {
   });
 });
 
+describe('createFrameFilter', () => {
+  const stack = parseStack([
+    'Error',
+    '    at dispatchSetState (/app/node_modules/react-dom/cjs/react-dom.development.js:12450:14)',
+    '    at setState (/app/node_modules/zustand/esm/vanilla.mjs:9:7)',
+    '    at useStore (/app/src/store/glue.ts:30:5)',
+    '    at Array.forEach (<anonymous>)',
+    '    at onClick (/app/src/Button.tsx:12:4)',
+    '    at Object.invoke (/app/packages/ui/dist/index.js:80:2)',
+  ].join('\n'));
+
+  const files = (isUserFrame: ReturnType<typeof createFrameFilter>) =>
+    filterUserFrames(stack, isUserFrame).map((frame) => frame.fileName);
+
+  test('defaults to skipping React, the scheduler, the observer and node_modules', () => {
+    expect(files(createFrameFilter())).toEqual([
+      '/app/src/store/glue.ts',
+      '/app/src/Button.tsx',
+      '/app/packages/ui/dist/index.js',
+    ]);
+  });
+
+  test('excludeFrames matches strings, RegExps and predicates', () => {
+    expect(files(createFrameFilter({ excludeFrames: ['/store/'] }))).toEqual(['/app/src/Button.tsx', '/app/packages/ui/dist/index.js']);
+    expect(files(createFrameFilter({ excludeFrames: [/packages\/ui/] }))).toEqual(['/app/src/store/glue.ts', '/app/src/Button.tsx']);
+    expect(files(createFrameFilter({ excludeFrames: [(frame) => frame.functionName === 'onClick'] })))
+      .toEqual(['/app/src/store/glue.ts', '/app/packages/ui/dist/index.js']);
+  });
+
+  test('includeFrames admits frames the defaults skip, unless also excluded', () => {
+    expect(files(createFrameFilter({ includeFrames: ['zustand'] }))[0]).toBe('/app/node_modules/zustand/esm/vanilla.mjs');
+    expect(files(createFrameFilter({ includeFrames: ['zustand'], excludeFrames: ['node_modules'] })))
+      .not.toContain('/app/node_modules/zustand/esm/vanilla.mjs');
+  });
+
+  test('firstPartyPaths replaces the built-in internal list', () => {
+    expect(files(createFrameFilter({ firstPartyPaths: ['/app/src/'] }))).toEqual(['/app/src/store/glue.ts', '/app/src/Button.tsx']);
+    expect(files(createFrameFilter({ firstPartyPaths: [/\/src\//], excludeFrames: ['/store/'] }))).toEqual(['/app/src/Button.tsx']);
+  });
+
+  test('never counts frames without a line', () => {
+    expect(files(createFrameFilter({ includeFrames: [() => true] }))).not.toContain('<anonymous>');
+  });
+
+  test('parseUserFrame takes a filter', () => {
+    const raw = '    at useStore (/app/src/store/glue.ts:30:5)\n    at onClick (/app/src/Button.tsx:12:4)';
+    expect(parseUserFrame(raw, createFrameFilter({ excludeFrames: ['glue'] }))?.fileName).toBe('/app/src/Button.tsx');
+  });
+});
+
 describe('findObserverInStack', () => {
   test('finds ResizeObserver in a V8 stack', () => {
     const stack = [
@@ -126,6 +290,24 @@ describe('findObserverInStack', () => {
     expect(findObserverInStack(stack)).toBeNull();
   });
 
+  test('finds an observer callback named after it in a Firefox stack', () => {
+    const stack = [
+      'handleCommit@react-flush-observer.js:30:10',
+      'onResizeObserver@http://localhost:5173/src/MyComponent.jsx:12:6',
+    ].join('\n');
+
+    expect(findObserverInStack(stack)).toBe('ResizeObserver');
+  });
+
+  test('ignores observer names in file paths', () => {
+    const stack = [
+      'Error',
+      '    at onClick (http://localhost:5173/src/ResizeObserver/panel.jsx:5:3)',
+    ].join('\n');
+
+    expect(findObserverInStack(stack)).toBeNull();
+  });
+
   test('returns null for null stack', () => {
     expect(findObserverInStack(null)).toBeNull();
   });
@@ -0,0 +1,379 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createSourceMap, decodeMappings } from '../source-map';
+import { createSymbolicator } from '../symbolicate';
+import { main } from '../symbolicate-cli';
+import type { CliIO } from '../symbolicate-cli';
+import type { FiberSnapshot, FlushReport, LoopReport } from '../types';
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    encoded += BASE64_CHARS[digit];
+  } while (vlq > 0);
+  return encoded;
+}
+
+// Absolute, 0-based segments per generated line → mappings string
+function encodeMappings(lines: number[][][]): string {
+  const state = [0, 0, 0, 0, 0];
+  return lines.map((segments) => {
+    state[0] = 0;
+    return segments.map((segment) => segment.map((value, field) => {
+      const delta = value - state[field];
+      state[field] = value;
+      return encodeVLQ(delta);
+    }).join('')).join(',');
+  }).join(';');
+}
+
+// function App() {        function a(){b()}function c(){a()}
+//   render();
+// }
+// function Root() {
+//   App();
+// }
+const GENERATED = 'function a(){b()}function c(){a()}';
+const MAP = {
+  version: 3,
+  file: 'app.min.js',
+  sources: ['src/App.tsx'],
+  names: ['App', 'render', 'Root'],
+  mappings: encodeMappings([[
+    [0, 0, 0, 0],
+    [9, 0, 0, 9, 0],
+    [13, 0, 1, 2, 1],
+    [17, 0, 3, 0],
+    [26, 0, 3, 9, 2],
+    [30, 0, 4, 2, 0],
+  ]]),
+};
+const BUNDLE_URL = 'https://cdn.example.com/assets/app.min.js';
+
+describe('createSourceMap', () => {
+  test('decodes mappings into absolute segments', () => {
+    expect(decodeMappings('AAAA,SAASA;;ACCE')).toEqual([
+      [[0, 0, 0, 0], [9, 0, 0, 9, 0]],
+      [],
+      // Original columns stay relative across lines
+      [[0, 1, 1, 11]],
+    ]);
+  });
+
+  test('finds the segment at or before a column', () => {
+    const map = createSourceMap(MAP);
+    expect(map.originalPositionFor(1, 14)).toEqual({ source: 'src/App.tsx', line: 2, column: 2, name: 'render' });
+    expect(map.originalPositionFor(1, 9)).toEqual({ source: 'src/App.tsx', line: 1, column: 9, name: 'App' });
+    expect(map.originalPositionFor(1, null)).toEqual({ source: 'src/App.tsx', line: 1, column: 0, name: null });
+    expect(map.originalPositionFor(2, 0)).toBeNull();
+  });
+
+  test('prefixes sources with sourceRoot', () => {
+    const map = createSourceMap({ ...MAP, sourceRoot: 'webpack://app/' });
+    expect(map.originalPositionFor(1, 0)?.source).toBe('webpack://app/src/App.tsx');
+  });
+
+  test('rejects maps it cannot read', () => {
+    expect(() => createSourceMap({ ...MAP, version: 2 })).toThrow('version 3');
+    expect(() => createSourceMap({ ...MAP, mappings: 'A!' }).originalPositionFor(1, 0)).toThrow('Invalid character');
+  });
+});
+
+describe('createSymbolicator', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'symbolicate-'));
+    fs.mkdirSync(path.join(dir, 'assets'));
+    fs.writeFileSync(path.join(dir, 'assets', 'app.min.js'), GENERATED);
+    fs.writeFileSync(path.join(dir, 'assets', 'app.min.js.map'), JSON.stringify(MAP));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('maps 1-based stack positions by generated file name', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    expect(symbolicator.symbolicateSourceInfo({ fileName: `${BUNDLE_URL}?v=3`, lineNumber: 1, columnNumber: 14 }))
+      .toEqual({ fileName: 'src/App.tsx', lineNumber: 2, columnNumber: 3 });
+
+    const unknown = { fileName: 'https://cdn.example.com/vendor.js', lineNumber: 1, columnNumber: 1 };
+    expect(symbolicator.symbolicateSourceInfo(unknown)).toBe(unknown);
+  });
+
+  test('rewrites V8 and Firefox stack lines and leaves the rest', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    const stack = [
+      'Error',
+      `    at a (${BUNDLE_URL}:1:14)`,
+      `c@${BUNDLE_URL}:1:31`,
+      '    at dispatch (https://cdn.example.com/vendor.js:5:1)',
+    ].join('\n');
+
+    expect(symbolicator.symbolicateStack(stack).split('\n')).toEqual([
+      'Error',
+      '    at App (src/App.tsx:2:3)',
+      'Root@src/App.tsx:5:3',
+      '    at dispatch (https://cdn.example.com/vendor.js:5:1)',
+    ]);
+  });
+
+  test('renames minified identifiers only when they have a single original', () => {
+    fs.writeFileSync(path.join(dir, 'assets', 'other.js'), 'function a(){}');
+    fs.writeFileSync(path.join(dir, 'assets', 'other.js.map'), JSON.stringify({
+      version: 3,
+      sources: ['src/Other.tsx'],
+      names: ['Other'],
+      mappings: encodeMappings([[[9, 0, 0, 9, 0]]]),
+    }));
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+
+    // 'a' is App in one bundle and Other in the other
+    expect(symbolicator.symbolicateName('a')).toBe('a');
+    expect(symbolicator.symbolicateName('Object.c')).toBe('Object.Root');
+  });
+
+  test('rewrites every location of a flush report', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    const location = { fileName: BUNDLE_URL, lineNumber: 1, columnNumber: 14 };
+    const report: FlushReport = {
+      type: 'flush',
+      rootId: 1,
+      timestamp: 0,
+      pattern: 'setState-in-layout-effect',
+      evidence: '',
+      suspects: [{
+        componentId: null,
+        tag: 0,
+        type: null,
+        ownerName: 'c',
+        componentPath: null,
+        reason: null,
+        source: location,
+        componentStack: ['c', 'a'],
+        effectSource: null,
+        lifecycleMethod: null,
+      } as FlushReport['suspects'][number]],
+      flushedEffectsCount: 1,
+      blockingDurationMs: 0,
+      setStateLocation: location,
+      userFrame: location,
+      userStack: [{ ...location, functionName: 'a', isEval: false, isAsync: false }],
+      setStateCalls: [{ componentName: 'a', hookIndex: 0, location, stack: `    at a (${BUNDLE_URL}:1:14)` }],
+    };
+
+    const result = symbolicator.symbolicateReport(report);
+    const original = { fileName: 'src/App.tsx', lineNumber: 2, columnNumber: 3 };
+    expect(result.userFrame).toEqual(original);
+    expect(result.setStateLocation).toEqual(original);
+    expect(result.userStack[0]).toMatchObject({ ...original, functionName: 'App' });
+    expect(result.suspects[0]).toMatchObject({ source: original, componentStack: ['Root', 'App'] });
+    expect(result.setStateCalls![0]).toMatchObject({ location: original, stack: '    at App (src/App.tsx:2:3)' });
+    // The input is left as it was
+    expect(report.userFrame).toBe(location);
+  });
+
+  test('rewrites the stack and snapshots of a loop report', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    const snapshot = {
+      withPassiveEffects: [],
+      withLayoutEffects: [],
+      withSuspense: [],
+      withUpdates: [],
+      withErrorBoundaries: [],
+      withUnstableStoreSnapshots: [],
+      withUnstableContextValues: [],
+      partial: false,
+    };
+    const report: LoopReport = {
+      type: 'loop',
+      rootId: 1,
+      pattern: 'sync',
+      commitCount: 50,
+      windowMs: null,
+      stack: `Error\n    at c (${BUNDLE_URL}:1:31)`,
+      suspects: [],
+      suspectPaths: [],
+      triggeringCommit: null,
+      forcedCommit: snapshot,
+      userFrame: { fileName: BUNDLE_URL, lineNumber: 1, columnNumber: 31 },
+      userStack: [],
+      timestamp: 0,
+    };
+
+    const result = symbolicator.symbolicateReport(report);
+    expect(result.stack).toBe('Error\n    at Root (src/App.tsx:5:3)');
+    expect(result.userFrame).toEqual({ fileName: 'src/App.tsx', lineNumber: 5, columnNumber: 3 });
+    expect(result.triggeringCommit).toBeNull();
+    expect(result.forcedCommit).toEqual(snapshot);
+  });
+
+  function makeSnapshot(overrides: Partial<FiberSnapshot> = {}): FiberSnapshot {
+    return {
+      withPassiveEffects: [],
+      withLayoutEffects: [],
+      withSuspense: [],
+      withUpdates: [],
+      withErrorBoundaries: [],
+      withUnstableStoreSnapshots: [],
+      withUnstableContextValues: [],
+      partial: false,
+      ...overrides,
+    };
+  }
+
+  function makeLoopReport(overrides: Partial<LoopReport> = {}): LoopReport {
+    return {
+      type: 'loop',
+      rootId: 1,
+      pattern: 'sync',
+      commitCount: 50,
+      windowMs: null,
+      stack: null,
+      suspects: [],
+      suspectPaths: [],
+      triggeringCommit: null,
+      forcedCommit: makeSnapshot(),
+      userFrame: null,
+      userStack: [],
+      timestamp: 0,
+      ...overrides,
+    };
+  }
+
+  // Minified owner c (Root) rendering a (App)
+  const fiberInfo = {
+    componentId: null,
+    tag: 0,
+    type: null,
+    ownerName: 'c',
+    componentPath: '… > c',
+    reason: null,
+  };
+
+  test('renames the owner and component path of flush suspects', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    const report: FlushReport = {
+      type: 'flush',
+      rootId: 1,
+      timestamp: 0,
+      pattern: 'setState-in-observer',
+      evidence: '',
+      suspects: [{ ...fiberInfo, componentPath: 'vendor > c' }],
+      flushedEffectsCount: 0,
+      blockingDurationMs: 0,
+      setStateLocation: null,
+      userFrame: null,
+      userStack: [],
+    };
+
+    expect(symbolicator.symbolicateReport(report).suspects[0]).toMatchObject({
+      ownerName: 'Root',
+      componentPath: 'vendor > Root',
+    });
+  });
+
+  test('renames loop report suspects and their paths', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    const result = symbolicator.symbolicateReport(makeLoopReport({ suspects: ['a'], suspectPaths: ['c > a'] }));
+    expect(result.suspects).toEqual(['App']);
+    expect(result.suspectPaths).toEqual(['Root > App']);
+  });
+
+  test('renames the suspects of every cross-root participant', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    const result = symbolicator.symbolicateReport(makeLoopReport({
+      pattern: 'cross-root',
+      roots: [{ rootId: 1, suspects: ['a'], suspectPaths: ['c > a'] }],
+    }));
+    expect(result.roots).toEqual([{ rootId: 1, suspects: ['App'], suspectPaths: ['Root > App'] }]);
+  });
+
+  test('renames effect owners and error boundaries', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    const result = symbolicator.symbolicateReport(makeLoopReport({
+      effectOwners: [{ ...fiberInfo, componentName: 'a', effectSource: null }],
+      errorBoundaries: [{ ...fiberInfo, componentName: 'c', throwingComponent: 'a' }],
+    }));
+    expect(result.effectOwners).toMatchObject([{ componentName: 'App', ownerName: 'Root', componentPath: '… > Root' }]);
+    expect(result.errorBoundaries).toMatchObject([{ componentName: 'Root', throwingComponent: 'App' }]);
+  });
+
+  test('renames the fibers of every snapshot list', () => {
+    const symbolicator = createSymbolicator({ mapDirs: [dir] });
+    const result = symbolicator.symbolicateReport(makeLoopReport({
+      triggeringCommit: makeSnapshot({
+        withPassiveEffects: [{ ...fiberInfo, componentName: 'a', effectSource: null }],
+        withUpdates: [{ ...fiberInfo, lanes: 1, componentName: 'a', changedHooks: [] }],
+        withSuspense: [{ ...fiberInfo, resolvedName: null }],
+        withUnstableStoreSnapshots: [{ ...fiberInfo, componentName: 'a', hookIndex: 0 }],
+        withUnstableContextValues: [{ ...fiberInfo, providerName: 'Context.Provider', consumerCount: 1 }],
+      }),
+    }));
+    const snapshot = result.triggeringCommit!;
+    expect(snapshot.withPassiveEffects[0]).toMatchObject({ componentName: 'App', ownerName: 'Root' });
+    expect(snapshot.withUpdates[0]).toMatchObject({ componentName: 'App', componentPath: '… > Root' });
+    expect(snapshot.withSuspense[0].ownerName).toBe('Root');
+    expect(snapshot.withUnstableStoreSnapshots[0].componentName).toBe('App');
+    expect(snapshot.withUnstableContextValues[0].ownerName).toBe('Root');
+  });
+
+  describe('CLI', () => {
+    function createIO(files: Record<string, string>, stdin = ''): CliIO & { out: string; err: string; written: Record<string, string> } {
+      const io = {
+        out: '',
+        err: '',
+        written: {} as Record<string, string>,
+        readFile: (file: string) => files[file],
+        readStdin: () => stdin,
+        writeFile: (file: string, contents: string) => { io.written[file] = contents; },
+        stdout: (text: string) => { io.out += text; },
+        stderr: (text: string) => { io.err += text; },
+      };
+      return io;
+    }
+
+    const loopReport = (column: number) => ({
+      type: 'loop',
+      userFrame: { fileName: BUNDLE_URL, lineNumber: 1, columnNumber: column },
+      stack: null,
+      triggeringCommit: null,
+      forcedCommit: null,
+    });
+
+    test('keeps the shape of a JSON array and passes other entries through', () => {
+      const io = createIO({ 'reports.json': JSON.stringify([loopReport(14), { note: 'not a report' }]) });
+
+      expect(main(['--maps', dir, 'reports.json'], io)).toBe(0);
+      const output = JSON.parse(io.out);
+      expect(output[0].userFrame).toEqual({ fileName: 'src/App.tsx', lineNumber: 2, columnNumber: 3 });
+      expect(output[1]).toEqual({ note: 'not a report' });
+    });
+
+    test('reads NDJSON from stdin and writes NDJSON to --out', () => {
+      const stdin = `${JSON.stringify(loopReport(14))}\n${JSON.stringify(loopReport(31))}\n`;
+      const io = createIO({}, stdin);
+
+      expect(main(['--maps', dir, '--out', 'out.ndjson'], io)).toBe(0);
+      const lines = io.written['out.ndjson'].trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((report) => report.userFrame.lineNumber)).toEqual([2, 5]);
+    });
+
+    test('fails with usage when --maps is missing', () => {
+      const io = createIO({});
+      expect(main(['reports.json'], io)).toBe(1);
+      expect(io.err).toContain('--maps is required');
+    });
+  });
+});
@@ -1,12 +1,18 @@
-import { snapshotCommitFibers } from '../walker';
+import { snapshotCommitFibers, snapshotFromFiber } from '../walker';
+import { getReactAdapter } from '../react-version';
 import {
   FunctionComponent,
+  ClassComponent,
+  ContextProvider,
+  ForwardRef,
   SuspenseComponent,
   OffscreenComponent,
+  SimpleMemoComponent,
   Passive,
   LayoutMask,
   DidCapture,
   Visibility,
+  PerformedWork,
 } from '../constants';
 import type { Fiber, FiberRoot, Effect } from '../types';
 
@@ -43,6 +49,17 @@ describe('snapshotCommitFibers', () => {
     expect(result.withLayoutEffects).toEqual([]);
     expect(result.withSuspense).toEqual([]);
     expect(result.withUpdates).toEqual([]);
+    expect(result.withErrorBoundaries).toEqual([]);
+  });
+
+  test('calls the visitor for every component fiber', () => {
+    const Host = makeFiber({ tag: 5, type: 'div' });
+    const leaf = makeFiber({ type: function Leaf() {} });
+    Host.child = leaf;
+    const rootFiber = makeFiber({ child: Host });
+    const visited: Fiber[] = [];
+    snapshotCommitFibers(makeRoot(rootFiber), { visit: (fiber) => visited.push(fiber) });
+    expect(visited).toEqual([rootFiber, leaf]);
   });
 
   test('collects fibers with Passive flag', () => {
@@ -60,6 +77,32 @@ describe('snapshotCommitFibers', () => {
     expect(result.withPassiveEffects[0].ownerName).toBe('MockComponent');
   });
 
+  test('records the component name and passive effect source', () => {
+    const effectCreate = () => {
+      /* setValue({}); */
+    };
+    const passiveEffect: Effect = {
+      tag: 0b1001, // HasEffect | Passive
+      create: effectCreate,
+      next: null as unknown as Effect,
+    };
+    passiveEffect.next = passiveEffect;
+
+    const Poller = function Poller() {};
+    const child = makeFiber({
+      flags: Passive,
+      type: Poller,
+      updateQueue: { lastEffect: passiveEffect },
+    });
+    const rootFiber = makeFiber({ subtreeFlags: Passive, child });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withPassiveEffects[0].componentName).toBe('Poller');
+    expect(result.withPassiveEffects[0].effectSource).toBe(
+      effectCreate.toString()
+    );
+  });
+
   test('collects fibers with LayoutMask flags', () => {
     const child = makeFiber({ flags: LayoutMask });
     const rootFiber = makeFiber({
@@ -127,6 +170,58 @@ describe('snapshotCommitFibers', () => {
     expect(result.withSuspense[0].resolvedName).toBeNull();
   });
 
+  test('collects class error boundaries that newly captured an error', () => {
+    const Boundary = function Boundary() {};
+    const Fallback = function Fallback() {};
+    const fallback = makeFiber({ type: Fallback });
+    const boundary = makeFiber({
+      tag: ClassComponent,
+      type: Boundary,
+      flags: DidCapture,
+      child: fallback,
+      alternate: makeFiber({ tag: ClassComponent, type: Boundary }),
+    });
+    const rootFiber = makeFiber({ subtreeFlags: DidCapture, child: boundary });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withErrorBoundaries).toHaveLength(1);
+    expect(result.withErrorBoundaries[0].componentName).toBe('Boundary');
+    expect(result.withErrorBoundaries[0].throwingComponent).toBe('Fallback');
+  });
+
+  test('ignores stale DidCapture carried over from the previous commit', () => {
+    const boundary = makeFiber({
+      tag: ClassComponent,
+      flags: DidCapture,
+      alternate: makeFiber({ tag: ClassComponent, flags: DidCapture }),
+    });
+    const rootFiber = makeFiber({ child: boundary });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withErrorBoundaries).toEqual([]);
+  });
+
+  test('collects useSyncExternalStore hooks with an unstable snapshot', () => {
+    const getSnapshot = () => ({ data: 'fresh' });
+    const makeHook = () => ({
+      memoizedState: getSnapshot(),
+      queue: { value: getSnapshot(), getSnapshot },
+      next: null,
+    });
+    const Widget = function Widget() {};
+    const child = makeFiber({
+      type: Widget,
+      memoizedState: makeHook(),
+      alternate: makeFiber({ type: Widget, memoizedState: makeHook() }),
+    });
+    const rootFiber = makeFiber({ child });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withUnstableStoreSnapshots).toHaveLength(1);
+    expect(result.withUnstableStoreSnapshots[0].componentName).toBe('Widget');
+    expect(result.withUnstableStoreSnapshots[0].hookIndex).toBe(0);
+  });
+
   test('collects fibers with non-zero lanes', () => {
     const child = makeFiber({ lanes: 1 });
     const rootFiber = makeFiber({
@@ -139,6 +234,148 @@ describe('snapshotCommitFibers', () => {
     expect(result.withUpdates[1].lanes).toBe(1);
   });
 
+  test('records the changed hooks of updated function components', () => {
+    function basicStateReducer() {}
+    const queue = { dispatch() {}, lastRenderedReducer: basicStateReducer };
+    const Header = function Header() {};
+    const alternate = makeFiber({
+      type: Header,
+      memoizedState: { memoizedState: 'a', queue, next: null },
+    });
+    const child = makeFiber({
+      type: Header,
+      alternate,
+      memoizedState: { memoizedState: 'b', queue, next: null },
+    });
+    const result = snapshotCommitFibers(makeRoot(makeFiber({ child })));
+    expect(result.withUpdates).toHaveLength(1);
+    expect(result.withUpdates[0].componentName).toBe('Header');
+    expect(result.withUpdates[0].changedHooks).toEqual([{ index: 0, kind: 'state' }]);
+  });
+
+  test('records why each component re-rendered', () => {
+    const Header = function Header() {};
+    const alternate = makeFiber({ type: Header, memoizedProps: { title: 'a' } });
+    const child = makeFiber({ type: Header, alternate, memoizedProps: { title: 'b' }, flags: Passive });
+    const result = snapshotCommitFibers(makeRoot(makeFiber({ subtreeFlags: Passive, child })));
+    expect(result.withPassiveEffects[0].reason).toEqual({ kind: 'props', changedKeys: ['title'] });
+  });
+
+  describe('unstable context provider values', () => {
+    const Theme = { displayName: 'Theme' };
+    // React 18 Provider type
+    const ThemeProvider = { _context: Theme };
+
+    // Consumers re-rendered, so their PerformedWork bubbles up to the provider
+    function consumer(value: unknown, sibling: Fiber | null = null): Fiber {
+      return makeFiber({
+        type: function Consumer() {},
+        flags: PerformedWork,
+        dependencies: { firstContext: { context: Theme, memoizedValue: value, next: null } },
+        sibling,
+      });
+    }
+
+    function commitProvider(previousValue: unknown, value: unknown, child: Fiber | null): FiberRoot {
+      const provider = makeFiber({
+        tag: ContextProvider,
+        type: ThemeProvider,
+        memoizedProps: { value },
+        alternate: makeFiber({ tag: ContextProvider, type: ThemeProvider, memoizedProps: { value: previousValue } }),
+        subtreeFlags: PerformedWork,
+        child,
+      });
+      return makeRoot(makeFiber({ type: function App() {}, child: provider }));
+    }
+
+    test('reports a new but shallow-equal value with its re-rendered consumers', () => {
+      const value = { mode: 'dark' };
+      // The second consumer bailed out and still holds the previous value
+      const child = consumer(value, consumer({ mode: 'dark' }, consumer(value)));
+      const result = snapshotCommitFibers(commitProvider({ mode: 'dark' }, value, child));
+      expect(result.withUnstableContextValues).toHaveLength(1);
+      expect(result.withUnstableContextValues[0].providerName).toBe('Theme.Provider');
+      expect(result.withUnstableContextValues[0].ownerName).toBe('App');
+      expect(result.withUnstableContextValues[0].consumerCount).toBe(2);
+    });
+
+    test('ignores values whose contents changed or identity is stable', () => {
+      const value = { mode: 'dark' };
+      expect(snapshotCommitFibers(commitProvider({ mode: 'light' }, value, consumer(value)))
+        .withUnstableContextValues).toEqual([]);
+      expect(snapshotCommitFibers(commitProvider(value, value, consumer(value)))
+        .withUnstableContextValues).toEqual([]);
+    });
+
+    test('ignores providers without re-rendered consumers', () => {
+      const value = { mode: 'dark' };
+      expect(snapshotCommitFibers(commitProvider({ mode: 'dark' }, value, makeFiber()))
+        .withUnstableContextValues).toEqual([]);
+    });
+
+    test('counts consumers of nested providers of the same context separately', () => {
+      const outerValue = { mode: 'dark' };
+      const innerValue = { mode: 'light' };
+      const inner = makeFiber({
+        tag: ContextProvider,
+        type: ThemeProvider,
+        memoizedProps: { value: innerValue },
+        alternate: makeFiber({ tag: ContextProvider, type: ThemeProvider, memoizedProps: { value: { mode: 'light' } } }),
+        flags: PerformedWork,
+        subtreeFlags: PerformedWork,
+        child: consumer(innerValue, consumer(innerValue)),
+      });
+      const result = snapshotCommitFibers(commitProvider({ mode: 'dark' }, outerValue, consumer(outerValue, inner)));
+      expect(result.withUnstableContextValues.map((provider) => provider.consumerCount)).toEqual([1, 2]);
+    });
+
+    test('counts only consumers the walk reached within its budget', () => {
+      const value = { mode: 'dark' };
+      let child: Fiber | null = null;
+      for (let i = 0; i < 500; i++) {
+        child = consumer(value, child);
+      }
+      const originalNow = performance.now;
+      // Each budget check, every 100 fibers, sees 100 ms pass
+      let now = 0;
+      performance.now = () => (now += 100);
+      try {
+        const result = snapshotCommitFibers(commitProvider({ mode: 'dark' }, value, child), { budgetMs: 50 });
+        expect(result.partial).toBe(true);
+        expect(result.withUnstableContextValues[0].consumerCount).toBeLessThan(500);
+      } finally {
+        performance.now = originalNow;
+      }
+    });
+
+    test('reads the context from a React 19 Provider type', () => {
+      const value = { mode: 'dark' };
+      const provider = makeFiber({
+        tag: ContextProvider,
+        type: Theme,
+        memoizedProps: { value },
+        alternate: makeFiber({ tag: ContextProvider, type: Theme, memoizedProps: { value: { mode: 'dark' } } }),
+        subtreeFlags: PerformedWork,
+        child: consumer(value),
+      });
+      const result = snapshotCommitFibers(makeRoot(provider));
+      expect(result.withUnstableContextValues[0].providerName).toBe('Theme.Provider');
+    });
+  });
+
+  test('does not diff class component state as hooks', () => {
+    class Legacy {}
+    const child = makeFiber({
+      tag: ClassComponent,
+      type: Legacy,
+      alternate: makeFiber({ tag: ClassComponent, type: Legacy, memoizedState: { next: null } }),
+      memoizedState: { next: null },
+    });
+    const result = snapshotCommitFibers(makeRoot(makeFiber({ child })));
+    expect(result.withUpdates).toHaveLength(1);
+    expect(result.withUpdates[0].changedHooks).toEqual([]);
+  });
+
   test('traverses siblings', () => {
     const CompA = function CompA() {};
     const CompB = function CompB() {};
@@ -225,6 +462,24 @@ describe('snapshotCommitFibers', () => {
     expect(result.withLayoutEffects[0].source).toBeNull();
   });
 
+  test('falls back to the JSX call in _debugStack (React 19)', () => {
+    const debugStack = new Error('react-stack-top-frame');
+    debugStack.stack = [
+      'Error: react-stack-top-frame',
+      '    at exports.jsxDEV (http://localhost:5173/node_modules/.vite/deps/react_jsx-dev-runtime.js:250:30)',
+      '    at Page (http://localhost:5173/src/Page.tsx:21:7)',
+    ].join('\n');
+    const child = makeFiber({ flags: LayoutMask, _debugStack: debugStack });
+    const rootFiber = makeFiber({ subtreeFlags: LayoutMask, child });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withLayoutEffects[0].source).toEqual({
+      fileName: 'http://localhost:5173/src/Page.tsx',
+      lineNumber: 21,
+      columnNumber: 7,
+    });
+  });
+
   test('builds componentStack from _debugOwner chain', () => {
     const App = function App() {};
     const Page = function Page() {};
@@ -246,6 +501,35 @@ describe('snapshotCommitFibers', () => {
     ]);
   });
 
+  test('follows Server Component owners in the componentStack (React 19)', () => {
+    const Layout = function Layout() {};
+    const layoutFiber = makeFiber({ type: Layout });
+    const child = makeFiber({
+      flags: LayoutMask,
+      _debugOwner: { name: 'ProductList', env: 'Server', owner: layoutFiber },
+    });
+    const rootFiber = makeFiber({ subtreeFlags: LayoutMask, child });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withLayoutEffects[0].componentStack).toEqual(['ProductList', 'Layout']);
+  });
+
+  test('reads the owner from _debugInfo when _debugOwner is missing (React 19)', () => {
+    const child = makeFiber({
+      flags: LayoutMask,
+      _debugOwner: null,
+      _debugInfo: [
+        { name: 'Page', env: 'Server', owner: null },
+        { name: 'ProductCard', env: 'Server', owner: { name: 'Page', env: 'Server' } },
+        {},
+      ],
+    });
+    const rootFiber = makeFiber({ subtreeFlags: LayoutMask, child });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withLayoutEffects[0].componentStack).toEqual(['ProductCard', 'Page']);
+  });
+
   test('componentStack is null when _debugOwner is absent', () => {
     const child = makeFiber({ flags: LayoutMask });
     const rootFiber = makeFiber({ subtreeFlags: LayoutMask, child });
@@ -278,6 +562,54 @@ describe('snapshotCommitFibers', () => {
     );
   });
 
+  test('reads componentDidUpdate from the class instance in place of effects', () => {
+    class Legacy {
+      componentDidUpdate() {
+        /* this.setState({ measured: true }); */
+      }
+    }
+    const child = makeFiber({
+      tag: ClassComponent,
+      type: Legacy,
+      flags: LayoutMask,
+      stateNode: new Legacy(),
+      alternate: makeFiber({ tag: ClassComponent, type: Legacy }),
+    });
+    const rootFiber = makeFiber({ subtreeFlags: LayoutMask, child });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withLayoutEffects[0].lifecycleMethod).toBe('componentDidUpdate');
+    expect(result.withLayoutEffects[0].effectSource).toBe(
+      Legacy.prototype.componentDidUpdate.toString()
+    );
+  });
+
+  test('reads componentDidMount for a class fiber without an alternate', () => {
+    class Legacy {
+      componentDidMount() {
+        /* this.setState({ mounted: true }); */
+      }
+    }
+    const child = makeFiber({
+      tag: ClassComponent,
+      type: Legacy,
+      flags: LayoutMask,
+      stateNode: new Legacy(),
+    });
+    const rootFiber = makeFiber({ subtreeFlags: LayoutMask, child });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withLayoutEffects[0].lifecycleMethod).toBe('componentDidMount');
+  });
+
+  test('lifecycleMethod is null for function components', () => {
+    const child = makeFiber({ flags: LayoutMask });
+    const rootFiber = makeFiber({ subtreeFlags: LayoutMask, child });
+    const result = snapshotCommitFibers(makeRoot(rootFiber));
+
+    expect(result.withLayoutEffects[0].lifecycleMethod).toBeNull();
+  });
+
   test('effectSource is null when updateQueue is absent', () => {
     const child = makeFiber({ flags: LayoutMask });
     const rootFiber = makeFiber({ subtreeFlags: LayoutMask, child });
@@ -319,3 +651,188 @@ describe('snapshotCommitFibers', () => {
     );
   });
 });
+
+describe('snapshotFromFiber', () => {
+  const originalPerformanceNow = performance.now;
+
+  afterEach(() => {
+    performance.now = originalPerformanceNow;
+  });
+
+  // Committed update: the root has an alternate, so subtree pruning applies
+  function makeUpdatedRoot(overrides: Partial<Fiber>): Fiber {
+    return makeFiber({ alternate: makeFiber(), ...overrides });
+  }
+
+  test('skips subtrees without relevant work', () => {
+    const child = makeFiber({ flags: Passive });
+    const result = snapshotFromFiber(makeUpdatedRoot({ child }));
+    expect(result.withPassiveEffects).toEqual([]);
+  });
+
+  test('descends into subtrees with flagged work or pending lanes', () => {
+    const child = makeFiber({ flags: Passive });
+    expect(snapshotFromFiber(makeUpdatedRoot({ child, subtreeFlags: PerformedWork }))
+      .withPassiveEffects).toHaveLength(1);
+    expect(snapshotFromFiber(makeUpdatedRoot({ child, childLanes: 1 }))
+      .withPassiveEffects).toHaveLength(1);
+  });
+
+  test('still inspects siblings of a pruned subtree', () => {
+    const skipped = makeFiber({ flags: Passive });
+    const sibling = makeFiber({ flags: Passive, type: function Sibling() {} });
+    const first = makeFiber({ alternate: makeFiber(), child: skipped, sibling });
+    const result = snapshotFromFiber(makeUpdatedRoot({ child: first, subtreeFlags: Passive }));
+    expect(result.withPassiveEffects).toHaveLength(1);
+    expect(result.withPassiveEffects[0].componentName).toBe('Sibling');
+  });
+
+  test('walks long sibling lists without overflowing the stack', () => {
+    let sibling: Fiber | null = null;
+    for (let i = 0; i < 100_000; i++) {
+      sibling = makeFiber({ flags: Passive, sibling });
+    }
+    const result = snapshotFromFiber(makeFiber({ child: sibling }));
+    expect(result.withPassiveEffects).toHaveLength(100_000);
+    expect(result.partial).toBe(false);
+  });
+
+  test('marks the snapshot partial when the time budget runs out', () => {
+    let sibling: Fiber | null = null;
+    for (let i = 0; i < 1000; i++) {
+      sibling = makeFiber({ flags: Passive, sibling });
+    }
+    let now = 0;
+    performance.now = () => (now += 1);
+
+    const result = snapshotFromFiber(makeFiber({ child: sibling }), { budgetMs: 1 });
+    expect(result.partial).toBe(true);
+    expect(result.withPassiveEffects.length).toBeLessThan(1000);
+  });
+
+  test('an earlier commit is not compared with its alternates', () => {
+    class Legacy {
+      componentDidMount() {}
+    }
+    const newer = makeFiber({ tag: ClassComponent, type: Legacy, memoizedState: { count: 2 } });
+    const child = makeFiber({
+      tag: ClassComponent,
+      type: Legacy,
+      flags: LayoutMask,
+      stateNode: new Legacy(),
+      memoizedState: { count: 1 },
+      alternate: newer,
+    });
+    const result = snapshotFromFiber(
+      makeUpdatedRoot({ child, subtreeFlags: LayoutMask }),
+      { earlierCommit: true }
+    );
+
+    expect(result.withUpdates).toEqual([]);
+    // The alternate says nothing about mount, so the defined method is read
+    expect(result.withLayoutEffects[0].lifecycleMethod).toBe('componentDidMount');
+  });
+});
+
+describe('React version layouts', () => {
+  const react16 = getReactAdapter('16.8.6');
+  const react17 = getReactAdapter('17.0.2');
+
+  function makeEffect(tag: number, create: () => void): Effect {
+    const effect = { tag, create } as Effect;
+    effect.next = effect;
+    return effect;
+  }
+
+  test('reads effectTag on React 16', () => {
+    const child = makeFiber({ effectTag: react16.flags.Passive });
+    const result = snapshotFromFiber(makeFiber({ child }), { react: react16 });
+    expect(result.withPassiveEffects).toHaveLength(1);
+  });
+
+  test('matches pre-16.13 hook effect tags', () => {
+    const layout = makeEffect(react16.hookEffects.Layout, function measure() {});
+    const fiber = makeFiber({
+      effectTag: react16.flags.Update,
+      updateQueue: { lastEffect: layout },
+    });
+    const result = snapshotFromFiber(makeFiber({ child: fiber }), { react: react16 });
+    expect(result.withLayoutEffects).toHaveLength(1);
+    expect(result.withLayoutEffects[0].effectSource).toContain('measure');
+  });
+
+  test('reports React 16 expiration times as pending work', () => {
+    const child = makeFiber({ alternate: makeFiber(), memoizedState: 1, expirationTime: 1073741823 });
+    const result = snapshotFromFiber(makeFiber({ child }), { react: react16 });
+    expect(result.withUpdates).toHaveLength(1);
+    expect(result.withUpdates[0].lanes).toBe(1073741823);
+  });
+
+  test('walks every subtree without subtreeFlags', () => {
+    const child = makeFiber({ flags: react17.flags.Passive });
+    const result = snapshotFromFiber(makeFiber({ alternate: makeFiber(), child }), { react: react17 });
+    expect(result.withPassiveEffects).toHaveLength(1);
+  });
+
+  test('detects error boundaries with the React 17 DidCapture bit', () => {
+    const boundary = makeFiber({
+      tag: ClassComponent,
+      type: function Boundary() {},
+      flags: react17.flags.DidCapture,
+    });
+    expect(snapshotFromFiber(makeFiber({ child: boundary }), { react: react17 }).withErrorBoundaries)
+      .toHaveLength(1);
+    expect(snapshotFromFiber(makeFiber({ child: boundary })).withErrorBoundaries).toEqual([]);
+  });
+});
+
+describe('componentPath', () => {
+  // Links child → parent through fiber.return, as React does
+  function chain(...fibers: Fiber[]): Fiber[] {
+    fibers.forEach((fiber, i) => {
+      fiber.child = fibers[i + 1] ?? null;
+      fiber.return = fibers[i - 1] ?? null;
+    });
+    return fibers;
+  }
+
+  test('lists named component ancestors from the return chain', () => {
+    const [rootFiber] = chain(
+      makeFiber({ tag: 3, type: null }),
+      makeFiber({ type: function App() {} }),
+      makeFiber({ tag: 5, type: 'div' }),
+      makeFiber({ type: function Layout() {} }),
+      // Anonymous component (the arrow would otherwise be named after the key)
+      makeFiber({ type: [() => {}][0] }),
+      makeFiber({ type: function Sidebar() {} }),
+      makeFiber({ tag: 5, type: 'ul', flags: Passive }),
+    );
+    const result = snapshotFromFiber(rootFiber);
+    expect(result.withPassiveEffects[0].componentPath).toBe('App > Layout > Sidebar');
+    expect(result.withPassiveEffects[0].ownerName).toBe('Sidebar');
+  });
+
+  test('includes forwardRef and memo components, named after their function', () => {
+    const [rootFiber] = chain(
+      makeFiber({ tag: 3, type: null }),
+      makeFiber({ tag: ForwardRef, type: { render: function TextField() {} } }),
+      // A memo() fiber's type is the function it wraps
+      makeFiber({ tag: SimpleMemoComponent, type: function Label() {} }),
+      makeFiber({ tag: 5, type: 'span', flags: Passive }),
+    );
+    const result = snapshotFromFiber(rootFiber);
+    expect(result.withPassiveEffects[0].componentPath).toBe('TextField > Label');
+  });
+
+  test('is null without named ancestors', () => {
+    const [rootFiber] = chain(makeFiber({ tag: 3, type: null }), makeFiber({ flags: Passive }));
+    expect(snapshotFromFiber(rootFiber).withPassiveEffects[0].componentPath).toBeNull();
+  });
+
+  test('keeps the innermost components of long paths', () => {
+    const components = Array.from({ length: 12 }, (_, i) => makeFiber({ type: { displayName: `C${i}` } }));
+    const [rootFiber] = chain(...components, makeFiber({ tag: 5, type: 'div', flags: Passive }));
+    const result = snapshotFromFiber(rootFiber);
+    expect(result.withPassiveEffects[0].componentPath).toBe('… > C4 > C5 > C6 > C7 > C8 > C9 > C10 > C11');
+  });
+});
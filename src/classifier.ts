@@ -1,4 +1,37 @@
-import type { FiberSnapshot, ClassificationResult, FiberInfo } from './types';
+import type {
+  FiberSnapshot,
+  ClassificationResult,
+  FiberInfo,
+  DetailedFiberInfo,
+  UpdatesFiberInfo,
+  HookKind,
+} from './types';
+
+const HOOK_NAMES: Record<HookKind, string> = {
+  state: 'useState',
+  reducer: 'useReducer',
+  memo: 'useMemo',
+  ref: 'useRef',
+  'external-store': 'useSyncExternalStore',
+};
+
+/** Distinct lifecycle method names of class suspects, e.g. "componentDidMount/componentDidUpdate". */
+export function describeLifecycleMethods(fibers: DetailedFiberInfo[]): string {
+  return [...new Set(fibers.map(f => f.lifecycleMethod).filter(Boolean))].join('/');
+}
+
+/**
+ * Which hooks changed in the updated components, e.g.
+ * "Header: useState #2 changed".  Null when no hook change was identified.
+ */
+export function describeStateChanges(fibers: UpdatesFiberInfo[]): string | null {
+  const descriptions = fibers
+    .filter(f => f.changedHooks.length > 0)
+    .map(f => `${f.componentName ?? 'Anonymous'}: `
+      + f.changedHooks.map(h => `${HOOK_NAMES[h.kind]} #${h.index}`).join(', ')
+      + ' changed');
+  return descriptions.length > 0 ? descriptions.join('; ') : null;
+}
 
 export function classifyPattern(snapshot: FiberSnapshot): ClassificationResult {
   // Suspense with DidCapture = lazy component resolved during render
@@ -10,15 +43,40 @@ export function classifyPattern(snapshot: FiberSnapshot): ClassificationResult {
     };
   }
 
+  // useSyncExternalStore whose getSnapshot returns a new reference every call —
+  // React sees a torn snapshot after each render and forces a sync re-render.
+  if (snapshot.withUnstableStoreSnapshots.length > 0) {
+    const [first] = snapshot.withUnstableStoreSnapshots;
+    return {
+      pattern: 'unstable-external-store-snapshot',
+      suspects: snapshot.withUnstableStoreSnapshots as FiberInfo[],
+      evidence: `useSyncExternalStore getSnapshot returned a new reference `
+        + `(${first.componentName ?? 'Anonymous'} hook #${first.hookIndex})`,
+    };
+  }
+
   // Layout effects with updates = setState in useLayoutEffect
   // Prefer fibers with actual effect source code — filters out reused fibers
   // with stale LayoutMask flags that weren't re-rendered in this commit.
   if (snapshot.withLayoutEffects.length > 0) {
     const withEffectSource = snapshot.withLayoutEffects.filter(f => f.effectSource);
+
+    // Class lifecycles run in the layout phase too, but only report them as
+    // such when no hook layout effect could be the cause.
+    const lifecycles = withEffectSource.filter(f => f.lifecycleMethod);
+    if (lifecycles.length > 0 && lifecycles.length === withEffectSource.length) {
+      return {
+        pattern: 'setState-in-lifecycle',
+        suspects: lifecycles as FiberInfo[],
+        evidence: `${describeLifecycleMethods(lifecycles)} triggered state update`,
+      };
+    }
+
+    const hookEffects = withEffectSource.filter(f => !f.lifecycleMethod);
     return {
       pattern: 'setState-in-layout-effect',
-      suspects: (withEffectSource.length > 0
-        ? withEffectSource
+      suspects: (hookEffects.length > 0
+        ? hookEffects
         : snapshot.withLayoutEffects) as FiberInfo[],
       evidence: 'Layout effect triggered state update',
     };
@@ -27,9 +85,11 @@ export function classifyPattern(snapshot: FiberSnapshot): ClassificationResult {
   // Default: multiple setState calls outside React batching.
   // Use withUpdates fibers as suspects — these are the components that
   // received state updates (non-zero lanes), giving the root cause.
+  const stateChanges = describeStateChanges(snapshot.withUpdates);
   return {
     pattern: 'setState-outside-react',
     suspects: snapshot.withUpdates as FiberInfo[],
-    evidence: 'Multiple commits in same task without React batching',
+    evidence: 'Multiple commits in same task without React batching'
+      + (stateChanges ? ` (${stateChanges})` : ''),
   };
 }
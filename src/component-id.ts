@@ -0,0 +1,147 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+
+export interface ComponentIdOptions {
+  /** Directory ids are relative to, so they don't depend on the machine that built them. */
+  root?: string;
+  /** Files to transform.  Default: .js, .jsx, .ts, .tsx, .mjs, .cjs */
+  include?: RegExp;
+  /** Files to leave alone, tested after include.  Default: node_modules */
+  exclude?: RegExp;
+}
+
+const DEFAULT_INCLUDE = /\.[cm]?[jt]sx?$/;
+const DEFAULT_EXCLUDE = /[\\/]node_modules[\\/]/;
+
+const WRAPPER_NAMES = new Set(['memo', 'forwardRef']);
+const COMPONENT_BASE_CLASSES = new Set(['Component', 'PureComponent']);
+
+interface ComponentDeclaration {
+  name: string;
+  line: number;
+  /** Declared as memo(...)/forwardRef(...), whose fibers render the wrapped function */
+  wrapper: boolean;
+}
+
+/** Bundler module ids may carry a query (`?v=123`, `?import`); the file is what matters. */
+export function stripQuery(id: string): string {
+  const index = id.indexOf('?');
+  return index === -1 ? id : id.slice(0, index);
+}
+
+export function shouldTransform(fileName: string, options: ComponentIdOptions = {}): boolean {
+  const { include = DEFAULT_INCLUDE, exclude = DEFAULT_EXCLUDE } = options;
+  return include.test(fileName) && !exclude.test(fileName);
+}
+
+/** "src/components/Menu.tsx:12" — the declaring file, relative to root, and line. */
+export function createComponentId(fileName: string, line: number, root = process.cwd()): string {
+  const relative = path.relative(root, fileName).split(path.sep).join('/');
+  return `${relative}:${line}`;
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  if (/\.tsx$/.test(fileName)) return ts.ScriptKind.TSX;
+  if (/\.[cm]?ts$/.test(fileName)) return ts.ScriptKind.TS;
+  // Plain .js files commonly hold JSX too
+  return ts.ScriptKind.JSX;
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+// memo(...), React.memo(...), forwardRef(...) and nestings of them
+function isWrapperCall(node: ts.Expression): boolean {
+  if (!ts.isCallExpression(node)) return false;
+  const callee = node.expression;
+  const name = ts.isIdentifier(callee)
+    ? callee.text
+    : ts.isPropertyAccessExpression(callee) ? callee.name.text : null;
+  return name !== null && WRAPPER_NAMES.has(name);
+}
+
+function isComponentInitializer(node: ts.Expression): boolean {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node) || isWrapperCall(node);
+}
+
+function extendsComponent(node: ts.ClassDeclaration): boolean {
+  return node.heritageClauses?.some((clause) =>
+    clause.token === ts.SyntaxKind.ExtendsKeyword && clause.types.some(({ expression }) => {
+      const name = ts.isIdentifier(expression)
+        ? expression.text
+        : ts.isPropertyAccessExpression(expression) ? expression.name.text : null;
+      return name !== null && COMPONENT_BASE_CLASSES.has(name);
+    })
+  ) ?? false;
+}
+
+function isAmbient(node: ts.Statement): boolean {
+  return ts.canHaveModifiers(node)
+    && (ts.getModifiers(node)?.some((modifier) => modifier.kind === ts.SyntaxKind.DeclareKeyword) ?? false);
+}
+
+/**
+ * Module-level component declarations: PascalCase functions, arrow functions
+ * and memo/forwardRef results, and classes extending (Pure)Component.
+ * Components declared inside other functions have no stable binding to stamp.
+ */
+function findComponentDeclarations(sourceFile: ts.SourceFile): ComponentDeclaration[] {
+  const declarations: ComponentDeclaration[] = [];
+  const add = (name: ts.Identifier, wrapper = false) => {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(name.getStart(sourceFile));
+    declarations.push({ name: name.text, line: line + 1, wrapper });
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (isAmbient(statement)) continue;
+
+    if (ts.isFunctionDeclaration(statement) && statement.name && statement.body
+      && isComponentName(statement.name.text)) {
+      add(statement.name);
+    } else if (ts.isClassDeclaration(statement) && statement.name
+      && isComponentName(statement.name.text) && extendsComponent(statement)) {
+      add(statement.name);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && isComponentName(declaration.name.text)
+          && declaration.initializer && isComponentInitializer(declaration.initializer)) {
+          add(declaration.name, isWrapperCall(declaration.initializer));
+        }
+      }
+    }
+  }
+  return declarations;
+}
+
+/**
+ * Stamp every component declared in a module with a `__componentId` naming
+ * its file and line, which survives minification and is read back into
+ * FiberInfo.componentId.  The assignments are appended after the module's
+ * own code, so existing lines and columns — and with them source maps —
+ * are unchanged.  Returns null when the module declares no components.
+ */
+export function injectComponentIds(code: string, fileName: string, options: ComponentIdOptions = {}): string | null {
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+  const declarations = findComponentDeclarations(sourceFile);
+  if (declarations.length === 0) {
+    return null;
+  }
+
+  // defineProperty instead of assignment: valid in both JS and TS without
+  // widening the component's type, and non-enumerable like React's statics
+  const stamps = declarations.map(({ name, line, wrapper }) => {
+    const id = JSON.stringify(createComponentId(fileName, line, options.root));
+    const stamp = `Object.defineProperty(${name}, "__componentId", { value: ${id}, configurable: true });`;
+    if (!wrapper) {
+      return stamp;
+    }
+    // A memo() fiber's type is the wrapped function, and forwardRef's
+    // function renders in its own fiber, so the ids go down the chain of
+    // .type/.render too — without replacing one a component already has.
+    return `${stamp}\nfor (let t = ${name}; typeof t === "object" && t !== null;) { t = t.type || t.render; `
+      + `if (t && !Object.prototype.hasOwnProperty.call(t, "__componentId")) `
+      + `Object.defineProperty(t, "__componentId", { value: ${id}, configurable: true }); }`;
+  });
+  return `${code}\n;${stamps.join('\n')}\n`;
+}
@@ -1,21 +1,48 @@
+// Flags, lanes and hook effect tags below are React 18's, as is the
+// OffscreenComponent tag.  react-version.ts holds the values of other versions.
+
 // Fiber tags (React's WorkTag enum — stable across dev/prod)
 export const FunctionComponent = 0;
 export const ClassComponent = 1;
+export const ContextProvider = 10;
+export const ForwardRef = 11;
 export const SuspenseComponent = 13;
+// memo() of a function component without a compare function; fiber.type is
+// the inner function.  Other memo() results render a child fiber instead.
+export const SimpleMemoComponent = 15;
 export const OffscreenComponent = 22;
 
+// Root tags (root.tag).  Every other tag (BlockingRoot in 17, ConcurrentRoot)
+// renders concurrently.
+export const LegacyRoot = 0;
+
 // Fiber flags (bitmask on fiber.flags — stable across dev/prod)
-export const Placement = 0b00000000000000000000000001; // 1
+export const Placement = 0b00000000000000000000000010; // 2
 export const Passive = 0b00000000000000100000000000; // 2048
 export const Update = 0b00000000000000000000000100; // 4
-export const LayoutMask = 0b00000000000000000000100100; // 36
-export const DidCapture = 0b00000000000000010000000000; // 1024
+export const Callback = 0b00000000000000000001000000; // 64
+// Layout-phase work on a component: effects and lifecycles (Update) or
+// setState callbacks (Callback)
+export const LayoutMask = Update | Callback; // 68
+export const DidCapture = 0b00000000000000000010000000; // 128
 export const Visibility = 0b00000000000010000000000000; // 8192
+export const PerformedWork = 0b00000000000000000000000001; // 1 — set on every fiber that rendered
+// Flags the walker reads or that mark a rendered fiber.  React bubbles flags
+// into subtreeFlags, so a subtree without any of these had no work to inspect.
+export const SubtreeWorkMask =
+  PerformedWork | Update | LayoutMask | Passive | DidCapture | Visibility;
 
 // Infinite loop detection defaults
 export const DEFAULT_MAX_COMMITS_PER_TASK = 50;
 export const DEFAULT_MAX_COMMITS_PER_WINDOW = 50;
 export const DEFAULT_WINDOW_MS = 1000;
+// Matches React's NESTED_UPDATE_LIMIT, which resets whenever the root alternates
+export const DEFAULT_MAX_CROSS_ROOT_ALTERNATIONS = 50;
+// Error commits per window before a boundary is considered stuck recovering
+export const DEFAULT_MAX_ERROR_COMMITS = 10;
+
+// Overhead budgets are measured over tumbling windows of this length
+export const OVERHEAD_WINDOW_MS = 1000;
 
 // Lane constants
 export const SyncLane = 1;
@@ -24,3 +51,4 @@ export const NoLane = 0;
 // Effect tags
 export const HookHasEffect = 0b0001; // 1 — effect needs to fire (deps changed or mount)
 export const HookLayout = 0b0100; // 4
+export const HookPassive = 0b1000; // 8
@@ -1,4 +1,10 @@
 import type {
+  CrossRootParticipant,
+  DetailedFiberInfo,
+  Fiber,
+  PassiveEffectFiberInfo,
+  ErrorBoundaryFiberInfo,
+  ContextProviderFiberInfo,
   FiberRoot,
   FiberSnapshot,
   FlushReport,
@@ -7,22 +13,47 @@ import type {
   Detector,
   LoopPattern,
   BreakOnLoopConfig,
+  SetStateCall,
+  DegradationLevel,
+  ReactAdapter,
+  StackFrame,
+  RootStats,
+  RuntimeConfig,
 } from './types';
-import { snapshotCommitFibers } from './walker';
-import { classifyPattern } from './classifier';
-import { parseUserFrame, findObserverInStack } from './stack-parser';
+import { snapshotCommitFibers, snapshotFromFiber, findUnstableContextValues } from './walker';
+import { createSetStateTracker } from './set-state-tracker';
+import { createOverheadMeter } from './overhead';
+import { DEFAULT_REACT_ADAPTER, getFiberFlags, hasPendingSyncWork } from './react-version';
+import { classifyPattern, describeLifecycleMethods, describeStateChanges } from './classifier';
+import { parseStack, createFrameFilter, filterUserFrames, findObserverFrame, toSourceInfo } from './stack-parser';
+import type { FrameFilter } from './stack-parser';
 import {
   DEFAULT_MAX_COMMITS_PER_TASK,
   DEFAULT_MAX_COMMITS_PER_WINDOW,
   DEFAULT_WINDOW_MS,
-  SyncLane,
+  DEFAULT_MAX_CROSS_ROOT_ALTERNATIONS,
+  DEFAULT_MAX_ERROR_COMMITS,
   NoLane,
+  LegacyRoot,
 } from './constants';
 
-interface DetectorState {
-  taskBoundaryPending: boolean;
+interface RootState {
+  id: number;
+  root: FiberRoot;
+  // Fiber layout of the renderer that owns the root
+  react: ReactAdapter;
+  // Lifetime totals, for getRootStats
+  commitCount: number;
+  loopCount: number;
+  maxCommitsPerTask: number;
+  maxCommitsPerWindow: number;
+  windowMs: number;
+  // Bumped by configure(); a stale root re-resolves its thresholds
+  thresholdsVersion: number;
   lastCommitTime: number;
+  // Null when the last commit skipped the walk — see getLastCommitSnapshot
   lastCommitSnapshot: FiberSnapshot | null;
+  lastCommitFiber: Fiber | null;
   commitCountInCurrentTask: number;
   syncLoopFiredThisTask: boolean;
   // Sliding window for async loop detection (ring buffer of timestamps)
@@ -31,36 +62,69 @@ interface DetectorState {
   windowFilled: boolean;
   lastAsyncLoopFireTime: number;
   lastCommitStack: string | null;
-  disposed: boolean;
   // Forward-looking cascade chain tracking
   cascadeChainActive: boolean;
   cascadeOriginSnapshot: FiberSnapshot | null;
   cascadeOriginStack: string | null;
   cascadeOriginTime: number;
+  cascadeOriginSetStateCalls: SetStateCall[] | null;
   reportedForCurrentChain: boolean;
   // Backward-looking fallback (for Suspense and non-SyncLane cascades)
   hadCommitInCurrentTask: boolean;
+  // Component types that had both a passive effect and an update on every
+  // commit of the current streak (useEffect → setState loop candidates)
+  passiveLoopCandidates: Set<unknown> | null;
+  passiveLoopStreak: number;
+  // Error-boundary recovery loop tracking (tumbling window of error commits)
+  errorCommitCount: number;
+  errorWindowStart: number;
+  lastErrorLoopFireTime: number;
+  lastErrorBoundaries: ErrorBoundaryFiberInfo[];
+  // Provider types already reported for an unstable value — once per context
+  reportedUnstableProviders: WeakSet<object>;
+  // Last lone commit checked for unstable Provider values
+  lastContextCheckTime: number;
+}
+
+interface DetectorState {
+  taskBoundaryPending: boolean;
+  disposed: boolean;
+  paused: boolean;
+  nextRootId: number;
+  // Keyed by FiberRoot so unmounted roots can be garbage collected
+  roots: WeakMap<FiberRoot, RootState>;
+  // Roots that committed since the last task boundary — reset when it fires
+  rootsInCurrentTask: RootState[];
+  // Cross-root ping-pong tracking — spans roots, so it lives outside RootState
+  lastCommitRootState: RootState | null;
+  // Commits by a root that already committed earlier in the chain
+  crossRootSwitches: number;
+  crossRootChainStart: number;
+  crossRootParticipants: RootState[];
+  lastCrossRootLoopFireTime: number;
 }
 
-function freezeRootLanes(root: FiberRoot): void {
+function freezeRootLanes(rootState: RootState): void {
+  const { root } = rootState;
+  const { pendingField, callbackPriorityField, syncCallbackPriority } = rootState.react.lanes;
   const originals = {
-    pendingLanes: root.pendingLanes,
-    callbackPriority: root.callbackPriority,
+    pendingLanes: root[pendingField] ?? NoLane,
+    callbackPriority: root[callbackPriorityField] ?? NoLane,
     callbackNode: root.callbackNode,
   };
   root.__frozenOriginals = originals;
 
   // Override properties to return frozen values
-  Object.defineProperty(root, 'pendingLanes', {
+  Object.defineProperty(root, pendingField, {
     configurable: true,
     get: () => NoLane,
     set: () => {
       /* suppress writes */
     },
   });
-  Object.defineProperty(root, 'callbackPriority', {
+  Object.defineProperty(root, callbackPriorityField, {
     configurable: true,
-    get: () => SyncLane,
+    get: () => syncCallbackPriority,
     set: () => {
       /* suppress writes */
     },
@@ -74,80 +138,214 @@ function freezeRootLanes(root: FiberRoot): void {
   });
 }
 
-function unfreezeRootLanes(root: FiberRoot): void {
+function unfreezeRootLanes(rootState: RootState): void {
+  const { root } = rootState;
+  const { pendingField, callbackPriorityField } = rootState.react.lanes;
   const originals = root.__frozenOriginals;
 
   // Remove property descriptors
-  delete (root as { pendingLanes?: number }).pendingLanes;
-  delete (root as { callbackPriority?: number }).callbackPriority;
+  delete root[pendingField];
+  delete root[callbackPriorityField];
   delete (root as { callbackNode?: unknown }).callbackNode;
 
   // Restore to clean state
-  root.pendingLanes = NoLane;
+  root[pendingField] = NoLane;
   // Always reset to NoLane (0) so ensureRootIsScheduled won't see a stale
   // priority match and skip scheduling
-  root.callbackPriority = NoLane;
+  root[callbackPriorityField] = NoLane;
   root.callbackNode = originals?.callbackNode ?? null;
 
   delete root.__frozenOriginals;
 }
 
-function getComponentNames(snapshot: FiberSnapshot): string[] {
-  const names: string[] = [];
+// A loop suspect and its component path, which ends with the suspect
+interface Suspect {
+  name: string;
+  path: string;
+}
+
+function addSuspect(suspects: Suspect[], name: string | null, path: string | null): void {
+  if (name && !suspects.some((suspect) => suspect.name === name)) {
+    suspects.push({ name, path: path ?? name });
+  }
+}
+
+function appendToPath(path: string | null, name: string | null): string | null {
+  return path && name ? `${path} > ${name}` : name;
+}
+
+// A fiber's componentPath ends at its ownerName, so it is the owner's path
+function getSuspects(snapshot: FiberSnapshot): Suspect[] {
+  const suspects: Suspect[] = [];
 
   for (const fiber of snapshot.withLayoutEffects) {
-    if (fiber.ownerName) {
-      names.push(fiber.ownerName);
-    }
+    addSuspect(suspects, fiber.ownerName, fiber.componentPath);
   }
 
   for (const fiber of snapshot.withUpdates) {
-    if (fiber.ownerName && !names.includes(fiber.ownerName)) {
-      names.push(fiber.ownerName);
+    addSuspect(suspects, fiber.ownerName, fiber.componentPath);
+  }
+
+  return suspects;
+}
+
+/**
+ * Component types that both ran a passive effect and re-rendered with an
+ * update in this commit.  A useEffect → setState loop produces the same
+ * types here on every commit.
+ */
+function findPassiveLoopTypes(snapshot: FiberSnapshot): Set<unknown> {
+  const updated = new Set(snapshot.withUpdates.map((fiber) => fiber.type));
+  const types = new Set<unknown>();
+  for (const fiber of snapshot.withPassiveEffects) {
+    if (fiber.componentName && updated.has(fiber.type)) {
+      types.add(fiber.type);
     }
   }
+  return types;
+}
+
+// React 18+ bubbles DidCapture into subtreeFlags, so a boundary capturing
+// anywhere in the tree shows on the root fiber.  Earlier versions only
+// report it through didError.
+function hasCapturedError(root: FiberRoot, react: ReactAdapter): boolean {
+  const rootFiber = root.current;
+  if (rootFiber == null || !react.hasSubtreeFlags) return false;
+  return ((getFiberFlags(rootFiber, react) | rootFiber.subtreeFlags) & react.flags.DidCapture) !== 0;
+}
+
+// Commits the async window must already hold before per-commit snapshots
+// start — enough to tell a loop warming up from ordinary activity.
+function hotWindowSize(rootState: RootState): number {
+  return Math.ceil(rootState.maxCommitsPerWindow / 2);
+}
+
+/** True when the last hotWindowSize commits all fall within windowMs. */
+function isWindowHot(rootState: RootState, now: number): boolean {
+  const size = rootState.maxCommitsPerWindow;
+  const hot = hotWindowSize(rootState);
+  if (!rootState.windowFilled && rootState.windowWritePos < hot) {
+    return false;
+  }
+  const index = (rootState.windowWritePos - hot + size) % size;
+  return now - rootState.windowTimestamps[index] < rootState.windowMs;
+}
 
-  return names;
+// The async window is a ring buffer with one slot per counted commit
+function isWindowSize(value: number): boolean {
+  return Number.isInteger(value) && value > 0;
 }
 
+function checkWindowSize(value: number): void {
+  if (!isWindowSize(value)) {
+    throw new RangeError(`maxCommitsPerWindow must be a positive integer, got ${value}`);
+  }
+}
+
+// configure() options that are resolved into each RootState
+const PER_ROOT_THRESHOLDS = ['maxCommitsPerTask', 'maxCommitsPerWindow', 'windowMs', 'rootThresholds'] as const;
+
 /**
- * Check if flushSync appears in the call stack as a standalone function name.
+ * Reallocate the async window at a new size, keeping the most recent
+ * timestamps in order so a loop in progress stays detectable.
+ */
+function resizeWindow(rootState: RootState, size: number): void {
+  const { windowTimestamps, windowWritePos, windowFilled } = rootState;
+  const oldSize = windowTimestamps.length;
+  const count = windowFilled ? oldSize : windowWritePos;
+  // Oldest entry: the write position once the buffer has wrapped
+  const start = windowFilled ? windowWritePos : 0;
+  const kept = Math.min(count, size);
+  const resized = new Array<number>(size);
+  for (let i = 0; i < kept; i++) {
+    resized[i] = windowTimestamps[(start + count - kept + i) % oldSize];
+  }
+  rootState.windowTimestamps = resized;
+  rootState.windowWritePos = kept % size;
+  rootState.windowFilled = kept === size;
+  rootState.maxCommitsPerWindow = size;
+}
+
+// Commit stacks need room for React internals below the user's frames (see
+// handleCommit); shallow stacks keep just enough for the nearest callers.
+const STACK_DEPTH = 30;
+const SHALLOW_STACK_DEPTH = 5;
+
+function captureStack(depth: number | null): string | null {
+  if (depth === null) {
+    return new Error().stack ?? null;
+  }
+  const prevLimit = Error.stackTraceLimit;
+  Error.stackTraceLimit = depth;
+  const stack = new Error().stack ?? null;
+  Error.stackTraceLimit = prevLimit;
+  return stack;
+}
+
+const DEGRADATION_STEPS: DegradationLevel[] = ['full', 'no-flush', 'shallow-stacks', 'loops-only'];
+
+/**
+ * Check if flushSync is on the call stack as a standalone function name.
  * Uses word boundary to avoid matching flushSyncCallbacks or
- * flushSyncCallbacksOnlyInLegacyMode.  Works in production builds because
+ * flushSyncCallbacksOnlyInLegacyMode, and only looks at function names so a
+ * flushSync.js file doesn't count.  Works in production builds because
  * React preserves the exported flushSync function name.
  */
-function hasFlushSyncInStack(stack: string | null): boolean {
-  if (!stack) return false;
-  return /\bflushSync\b/.test(stack);
+function hasFlushSyncFrame(frames: StackFrame[]): boolean {
+  return frames.some((frame) => frame.functionName !== null && /\bflushSync\b/.test(frame.functionName));
+}
+
+// Name the hooks that changed, so "setState in same task" says whose state
+function withStateChanges(evidence: string, snapshot: FiberSnapshot): string {
+  const stateChanges = describeStateChanges(snapshot.withUpdates);
+  return stateChanges ? `${evidence} (${stateChanges})` : evidence;
+}
+
+/** User frames of the first stack that has any — the current commit's before the origin's. */
+function getUserStack(isUserFrame: FrameFilter, ...stacks: StackFrame[][]): StackFrame[] {
+  for (const frames of stacks) {
+    const userFrames = filterUserFrames(frames, isUserFrame);
+    if (userFrames.length > 0) return userFrames;
+  }
+  return [];
 }
 
 function buildFlushReport(
+  rootId: number,
   originSnapshot: FiberSnapshot,
   originStack: string | null,
   currentStack: string | null,
   originTime: number,
   now: number,
+  isUserFrame: FrameFilter,
 ): FlushReport | null {
   const classification = classifyPattern(originSnapshot);
+  const currentFrames = parseStack(currentStack);
+  const originFrames = parseStack(originStack);
+  const userStack = getUserStack(isUserFrame, currentFrames, originFrames);
 
   let reportPattern = classification.pattern;
   let reportEvidence = classification.evidence;
 
   if (classification.pattern === 'setState-outside-react') {
-    if (hasFlushSyncInStack(currentStack) || hasFlushSyncInStack(originStack)) {
+    if (hasFlushSyncFrame(currentFrames) || hasFlushSyncFrame(originFrames)) {
       reportPattern = 'flushSync';
-      reportEvidence = 'flushSync caused synchronous re-render';
+      reportEvidence = withStateChanges('flushSync caused synchronous re-render', originSnapshot);
     } else {
-      const observerName = findObserverInStack(currentStack) ?? findObserverInStack(originStack);
+      const observerName = findObserverFrame(currentFrames) ?? findObserverFrame(originFrames);
       reportPattern = 'setState-in-observer';
-      reportEvidence = observerName
-        ? `${observerName} callback triggered setState in same task`
-        : 'Synchronous callback triggered setState in same task';
+      reportEvidence = withStateChanges(
+        observerName
+          ? `${observerName} callback triggered setState in same task`
+          : 'Synchronous callback triggered setState in same task',
+        originSnapshot,
+      );
     }
   }
 
   return {
     type: 'flush',
+    rootId,
     timestamp: now,
     pattern: reportPattern,
     evidence: reportEvidence,
@@ -157,301 +355,842 @@ function buildFlushReport(
     setStateLocation:
       (originSnapshot.withLayoutEffects.find(f => f.effectSource)
         ?? originSnapshot.withLayoutEffects[0])?.source ?? null,
-    userFrame: parseUserFrame(currentStack) ?? parseUserFrame(originStack),
+    userFrame: userStack.length > 0 ? toSourceInfo(userStack[0]) : null,
+    userStack,
+  };
+}
+
+/**
+ * Attach instrumented setState calls to a flush report.  The most recent call
+ * is the one that scheduled the flushed update, so its frame replaces the
+ * _debugSource guess in setStateLocation.
+ */
+function attachSetStateCalls(report: FlushReport, calls: SetStateCall[] | null): FlushReport {
+  if (calls && calls.length > 0) {
+    report.setStateCalls = calls;
+    report.setStateLocation = calls[calls.length - 1].location ?? report.setStateLocation;
+  }
+  return report;
+}
+
+type ResolvedBreakConfig = Required<BreakOnLoopConfig>;
+
+function resolveBreakConfig(value: boolean | BreakOnLoopConfig): ResolvedBreakConfig {
+  if (typeof value === 'boolean') {
+    return { sync: value, async: value, crossRoot: value, errorBoundary: value };
+  }
+  return {
+    sync: value.sync ?? true,
+    async: value.async ?? true,
+    crossRoot: value.crossRoot ?? true,
+    errorBoundary: value.errorBoundary ?? true,
   };
 }
 
-function resolveBreakConfig(value: boolean | BreakOnLoopConfig): { sync: boolean; async: boolean } {
-  if (typeof value === 'boolean') return { sync: value, async: value };
-  return { sync: value.sync ?? true, async: value.async ?? true };
+function shouldBreakFor(pattern: LoopPattern, breakConfig: ResolvedBreakConfig): boolean {
+  switch (pattern) {
+    case 'sync':
+      return breakConfig.sync;
+    case 'async':
+    // A passive-effect loop is an async loop with an identified cause
+    case 'passive-effect-loop':
+      return breakConfig.async;
+    case 'cross-root':
+      return breakConfig.crossRoot;
+    case 'error-boundary-loop':
+      return breakConfig.errorBoundary;
+  }
 }
 
 export function createDetector(config: Partial<DetectorConfig> = {}): Detector {
   const {
+    breakOnLoop: initialBreakOnLoop = true,
+    instrumentSetState = false,
+    excludeFrames = [],
+    includeFrames = [],
+    firstPartyPaths = null,
+  } = config;
+  // Changed by configure()
+  let {
     sampleRate = 1.0,
     onFlush = null,
     onLoop = null,
     maxCommitsPerTask = DEFAULT_MAX_COMMITS_PER_TASK,
     maxCommitsPerWindow = DEFAULT_MAX_COMMITS_PER_WINDOW,
     windowMs = DEFAULT_WINDOW_MS,
-    breakOnLoop: initialBreakOnLoop = true,
+    maxCrossRootAlternations = DEFAULT_MAX_CROSS_ROOT_ALTERNATIONS,
+    maxErrorCommits = DEFAULT_MAX_ERROR_COMMITS,
+    rootThresholds = null,
+    walkBudgetMs = null,
+    overheadBudgetMs = null,
+    onDegrade = null,
   } = config;
+  checkWindowSize(maxCommitsPerWindow);
+  let thresholdsVersion = 0;
+
+  const meter = createOverheadMeter();
+  let degradation: DegradationLevel = 'full';
+
+  const isUserFrame = createFrameFilter({ excludeFrames, includeFrames, firstPartyPaths });
+  const setStateTracker = instrumentSetState ? createSetStateTracker(isUserFrame) : null;
 
   let breakConfig = resolveBreakConfig(initialBreakOnLoop);
 
   const state: DetectorState = {
     taskBoundaryPending: false,
-    lastCommitTime: 0,
-    lastCommitSnapshot: null,
-    commitCountInCurrentTask: 0,
-    syncLoopFiredThisTask: false,
-    windowTimestamps: new Array<number>(maxCommitsPerWindow),
-    windowWritePos: 0,
-    windowFilled: false,
-    lastAsyncLoopFireTime: 0,
-    lastCommitStack: null,
     disposed: false,
-    cascadeChainActive: false,
-    cascadeOriginSnapshot: null,
-    cascadeOriginStack: null,
-    cascadeOriginTime: 0,
-    reportedForCurrentChain: false,
-    hadCommitInCurrentTask: false,
+    paused: false,
+    nextRootId: 1,
+    roots: new WeakMap(),
+    rootsInCurrentTask: [],
+    lastCommitRootState: null,
+    crossRootSwitches: 0,
+    crossRootChainStart: 0,
+    crossRootParticipants: [],
+    lastCrossRootLoopFireTime: 0,
   };
 
+  function resolveThresholds(root: FiberRoot): Pick<RootState, 'maxCommitsPerTask' | 'maxCommitsPerWindow' | 'windowMs'> {
+    const overrides = rootThresholds?.(root) ?? {};
+    // Resolved mid-commit, where throwing would break React's commit
+    const windowOverride = overrides.maxCommitsPerWindow;
+    return {
+      maxCommitsPerTask: overrides.maxCommitsPerTask ?? maxCommitsPerTask,
+      maxCommitsPerWindow: windowOverride !== undefined && isWindowSize(windowOverride)
+        ? windowOverride
+        : maxCommitsPerWindow,
+      windowMs: overrides.windowMs ?? windowMs,
+    };
+  }
+
+  function createRootState(root: FiberRoot, react: ReactAdapter): RootState {
+    const thresholds = resolveThresholds(root);
+    return {
+      id: state.nextRootId++,
+      root,
+      react,
+      commitCount: 0,
+      loopCount: 0,
+      ...thresholds,
+      thresholdsVersion,
+      lastCommitTime: 0,
+      lastCommitSnapshot: null,
+      lastCommitFiber: null,
+      commitCountInCurrentTask: 0,
+      syncLoopFiredThisTask: false,
+      windowTimestamps: new Array<number>(thresholds.maxCommitsPerWindow),
+      windowWritePos: 0,
+      windowFilled: false,
+      lastAsyncLoopFireTime: 0,
+      lastCommitStack: null,
+      cascadeChainActive: false,
+      cascadeOriginSnapshot: null,
+      cascadeOriginStack: null,
+      cascadeOriginTime: 0,
+      cascadeOriginSetStateCalls: null,
+      reportedForCurrentChain: false,
+      hadCommitInCurrentTask: false,
+      passiveLoopCandidates: null,
+      passiveLoopStreak: 0,
+      errorCommitCount: 0,
+      errorWindowStart: 0,
+      lastErrorLoopFireTime: 0,
+      lastErrorBoundaries: [],
+      reportedUnstableProviders: new WeakSet(),
+      lastContextCheckTime: 0,
+    };
+  }
+
+  function getRootState(root: FiberRoot, react: ReactAdapter): RootState {
+    let rootState = state.roots.get(root);
+    if (!rootState) {
+      rootState = createRootState(root, react);
+      state.roots.set(root, rootState);
+    } else if (rootState.thresholdsVersion !== thresholdsVersion) {
+      const thresholds = resolveThresholds(root);
+      if (thresholds.maxCommitsPerWindow !== rootState.maxCommitsPerWindow) {
+        resizeWindow(rootState, thresholds.maxCommitsPerWindow);
+      }
+      rootState.maxCommitsPerTask = thresholds.maxCommitsPerTask;
+      rootState.windowMs = thresholds.windowMs;
+      rootState.thresholdsVersion = thresholdsVersion;
+    }
+    return rootState;
+  }
+
   // MessageChannel for detecting task boundaries
   const channel = new MessageChannel();
   channel.port1.onmessage = () => {
     if (state.disposed) return;
     state.taskBoundaryPending = false;
-    state.commitCountInCurrentTask = 0;
-    state.syncLoopFiredThisTask = false;
-    state.lastCommitStack = null;
-    // Flush detection resets
-    state.cascadeChainActive = false;
-    state.cascadeOriginSnapshot = null;
-    state.cascadeOriginStack = null;
-    state.cascadeOriginTime = 0;
-    state.reportedForCurrentChain = false;
-    state.hadCommitInCurrentTask = false;
+    for (const rootState of state.rootsInCurrentTask) {
+      rootState.commitCountInCurrentTask = 0;
+      rootState.syncLoopFiredThisTask = false;
+      rootState.lastCommitStack = null;
+      // Flush detection resets
+      rootState.cascadeChainActive = false;
+      rootState.cascadeOriginSnapshot = null;
+      rootState.cascadeOriginStack = null;
+      rootState.cascadeOriginTime = 0;
+      rootState.cascadeOriginSetStateCalls = null;
+      rootState.reportedForCurrentChain = false;
+      rootState.hadCommitInCurrentTask = false;
+    }
+    state.rootsInCurrentTask = [];
+    // A ping-pong React can't stop runs within one task; roots that update
+    // independently (shared store, rAF) alternate across tasks
+    state.lastCommitRootState = null;
+    state.crossRootSwitches = 0;
+    state.crossRootParticipants = [];
   };
 
+  function flushDetectionEnabled(): boolean {
+    return onFlush !== null && degradation === 'full';
+  }
+
+  function isShallow(): boolean {
+    return degradation === 'shallow-stacks' || degradation === 'loops-only';
+  }
+
+  function deliverFlush(report: FlushReport): void {
+    meter.measure('callback', () => onFlush?.(report));
+  }
+
+  function deliverLoop(report: LoopReport): void {
+    // Runs outside handleCommit, so it is recorded on its own
+    const start = performance.now();
+    meter.measure('callback', () => onLoop?.(report));
+    recordOverhead(performance.now() - start);
+  }
+
+  /**
+   * Charge observer time against the overhead budget and step down one
+   * level each time a window exceeds it.
+   */
+  function recordOverhead(elapsedMs: number): void {
+    const now = Date.now();
+    const spentMs = meter.record(elapsedMs, now);
+    if (overheadBudgetMs === null || spentMs <= overheadBudgetMs) return;
+
+    const index = DEGRADATION_STEPS.indexOf(degradation);
+    if (index === DEGRADATION_STEPS.length - 1) return;
+    const previousLevel = degradation;
+    degradation = DEGRADATION_STEPS[index + 1];
+    // The new level gets a window of its own before the next step
+    meter.resetWindow(now);
+    onDegrade?.({
+      type: 'degradation',
+      level: degradation,
+      previousLevel,
+      overheadMs: spentMs,
+      budgetMs: overheadBudgetMs,
+      timestamp: now,
+    });
+  }
+
+  /**
+   * Snapshot of the root's previous commit.  Lone commits skip the walk, so
+   * it is taken on demand from that commit's tree, which React keeps intact
+   * as the alternate of the tree being committed now.  That tree's own
+   * alternates are the new commit's fibers, so the walk records only what
+   * the tree holds by itself (flags, effects, lanes), not changes.
+   */
+  function getLastCommitSnapshot(rootState: RootState): FiberSnapshot | null {
+    if (!rootState.lastCommitSnapshot && rootState.lastCommitFiber) {
+      const lastCommitFiber = rootState.lastCommitFiber;
+      rootState.lastCommitSnapshot = meter.measure('walk', () =>
+        snapshotFromFiber(lastCommitFiber, {
+          budgetMs: walkBudgetMs,
+          react: rootState.react,
+          earlierCommit: true,
+        })
+      );
+    }
+    return rootState.lastCommitSnapshot;
+  }
+
   function buildLoopReport(
     root: FiberRoot,
+    rootState: RootState,
     pattern: LoopPattern,
     commitCount: number,
-    windowDuration: number | null
+    windowDuration: number | null,
+    setStateCalls: SetStateCall[] | null
   ): LoopReport {
-    const triggeringSnapshot = state.lastCommitSnapshot;
-    const forcedSnapshot = snapshotCommitFibers(root);
+    const triggeringSnapshot = getLastCommitSnapshot(rootState);
+    const forcedSnapshot = meter.measure('walk', () =>
+      snapshotCommitFibers(root, { budgetMs: walkBudgetMs, react: rootState.react })
+    );
 
-    const stack = new Error().stack ?? null;
-    const userFrame = parseUserFrame(stack);
+    const stack = meter.measure('stack', () => captureStack(isShallow() ? SHALLOW_STACK_DEPTH : null));
+    const userStack = getUserStack(isUserFrame, parseStack(stack));
 
-    const suspects = getComponentNames(forcedSnapshot);
+    let suspects = getSuspects(forcedSnapshot);
+    let roots: CrossRootParticipant[] | undefined;
+    if (pattern === 'cross-root') {
+      // The committing root's snapshot is the forced one; every other
+      // participant is described by its most recent commit.
+      suspects = [];
+      roots = [];
+      for (const participant of state.crossRootParticipants) {
+        const participantSuspects = getSuspects(participant === rootState
+          ? forcedSnapshot
+          : getLastCommitSnapshot(participant) ?? forcedSnapshot);
+        roots.push({
+          rootId: participant.id,
+          suspects: participantSuspects.map((suspect) => suspect.name),
+          suspectPaths: participantSuspects.map((suspect) => suspect.path),
+        });
+        for (const suspect of participantSuspects) {
+          addSuspect(suspects, suspect.name, suspect.path);
+        }
+      }
+    }
+
+    let effectOwners: PassiveEffectFiberInfo[] | undefined;
+    if (pattern === 'passive-effect-loop') {
+      const candidates = rootState.passiveLoopCandidates;
+      effectOwners = forcedSnapshot.withPassiveEffects.filter(
+        (fiber) => candidates?.has(fiber.type) ?? false
+      );
+      suspects = [];
+      for (const fiber of effectOwners) {
+        addSuspect(suspects, fiber.componentName, appendToPath(fiber.componentPath, fiber.componentName));
+      }
+    }
+
+    let errorBoundaries: ErrorBoundaryFiberInfo[] | undefined;
+    if (pattern === 'error-boundary-loop') {
+      errorBoundaries = rootState.lastErrorBoundaries;
+      suspects = [];
+      for (const boundary of errorBoundaries) {
+        const boundaryPath = appendToPath(boundary.componentPath, boundary.componentName);
+        addSuspect(suspects, boundary.componentName, boundaryPath);
+        addSuspect(suspects, boundary.throwingComponent, appendToPath(boundaryPath, boundary.throwingComponent));
+      }
+    }
 
     return {
       type: 'loop',
+      rootId: rootState.id,
       pattern,
       commitCount,
       windowMs: windowDuration,
       stack,
-      suspects,
+      suspects: suspects.map((suspect) => suspect.name),
+      suspectPaths: suspects.map((suspect) => suspect.path),
       triggeringCommit: triggeringSnapshot,
       forcedCommit: forcedSnapshot,
-      userFrame,
+      userFrame: userStack.length > 0 ? toSourceInfo(userStack[0]) : null,
+      userStack,
+      roots,
+      effectOwners,
+      errorBoundaries,
+      setStateCalls: setStateCalls && setStateCalls.length > 0 ? setStateCalls : undefined,
       timestamp: Date.now(),
     };
   }
 
   function handleLoopDetection(
     root: FiberRoot,
+    rootState: RootState,
     pattern: LoopPattern,
     commitCount: number,
-    windowDuration: number | null
+    windowDuration: number | null,
+    setStateCalls: SetStateCall[] | null
   ): void {
-    const report = buildLoopReport(root, pattern, commitCount, windowDuration);
-    const shouldBreak = pattern === 'sync' ? breakConfig.sync : breakConfig.async;
-
-    if (shouldBreak) {
-      // Freeze the root to prevent further commits
-      freezeRootLanes(root);
+    const report = buildLoopReport(root, rootState, pattern, commitCount, windowDuration, setStateCalls);
+    rootState.loopCount++;
+    if (shouldBreakFor(pattern, breakConfig)) {
+      // Freeze the root to prevent further commits.  A cross-root cycle keeps
+      // going as long as any participant can commit, so freeze all of them.
+      const frozenRoots = pattern === 'cross-root' ? state.crossRootParticipants : [rootState];
+      frozenRoots.forEach(freezeRootLanes);
 
       // Unfreeze and deliver report after current task
       setTimeout(() => {
-        unfreezeRootLanes(root);
-        onLoop?.(report);
+        frozenRoots.forEach(unfreezeRootLanes);
+        deliverLoop(report);
       }, 0);
     } else {
       // Just report, don't break
       queueMicrotask(() => {
-        onLoop?.(report);
+        deliverLoop(report);
       });
     }
   }
 
-  function handleCommit(root: FiberRoot): void {
+  /**
+   * Tracks a chain of commits that alternate between roots (A → B → A → ...).
+   * React's nested update counter resets whenever the committing root changes,
+   * so a ping-pong between roots is never caught by React itself.  Only a
+   * root coming back counts: one update reaching many roots commits each of
+   * them once.  A repeated commit on the same root ends the chain, as does
+   * the task boundary, so only alternations within one synchronous cascade
+   * are counted; a chain older than windowMs also restarts.
+   * Returns true when the chain exceeds maxCrossRootAlternations.
+   */
+  function trackCrossRootChain(rootState: RootState, now: number): boolean {
+    const previous = state.lastCommitRootState;
+    state.lastCommitRootState = rootState;
+
+    if (previous === null || previous === rootState) {
+      state.crossRootSwitches = 0;
+      state.crossRootChainStart = now;
+      state.crossRootParticipants = [rootState];
+      return false;
+    }
+
+    if (now - state.crossRootChainStart > windowMs) {
+      state.crossRootSwitches = 0;
+      state.crossRootChainStart = now;
+      state.crossRootParticipants = [previous];
+    }
+
+    if (state.crossRootParticipants.includes(rootState)) {
+      state.crossRootSwitches++;
+    } else {
+      state.crossRootParticipants.push(rootState);
+    }
+
+    return (
+      state.crossRootSwitches > maxCrossRootAlternations &&
+      now - state.lastCrossRootLoopFireTime > windowMs
+    );
+  }
+
+  function trackPassiveLoop(rootState: RootState, snapshot: FiberSnapshot | null): void {
+    // No snapshot — the window isn't hot, so there is no streak to extend
+    if (!snapshot) {
+      rootState.passiveLoopCandidates = null;
+      rootState.passiveLoopStreak = 0;
+      return;
+    }
+    const types = findPassiveLoopTypes(snapshot);
+    const previous = rootState.passiveLoopCandidates;
+    const candidates = previous
+      ? new Set([...previous].filter((type) => types.has(type)))
+      : types;
+
+    if (candidates.size > 0) {
+      rootState.passiveLoopCandidates = candidates;
+      rootState.passiveLoopStreak++;
+    } else {
+      // Streak broken — this commit may start a new one
+      rootState.passiveLoopCandidates = types.size > 0 ? types : null;
+      rootState.passiveLoopStreak = types.size > 0 ? 1 : 0;
+    }
+  }
+
+  /**
+   * Counts error commits — React reported didError, or an error boundary
+   * newly captured — in a tumbling window.  A boundary whose recovery render
+   * keeps throwing during commit produces one error commit per cycle, and
+   * React never checks its nested update limit on that path.
+   * Returns true when the count exceeds maxErrorCommits.
+   */
+  function trackErrorCommits(
+    rootState: RootState,
+    didError: boolean,
+    snapshot: FiberSnapshot | null,
+    now: number
+  ): boolean {
+    const boundaries = snapshot?.withErrorBoundaries ?? [];
+    if (!didError && boundaries.length === 0) {
+      return false;
+    }
+
+    if (now - rootState.errorWindowStart > rootState.windowMs) {
+      rootState.errorCommitCount = 0;
+      rootState.errorWindowStart = now;
+    }
+    rootState.errorCommitCount++;
+    if (boundaries.length > 0) {
+      rootState.lastErrorBoundaries = boundaries;
+    }
+
+    return (
+      rootState.errorCommitCount > maxErrorCommits &&
+      now - rootState.lastErrorLoopFireTime > rootState.windowMs
+    );
+  }
+
+  /**
+   * Report Providers whose value is a new object with the same contents.
+   * Not a cascade — it widens every commit that passes through the provider —
+   * so it is reported on its own, once per context for each root.
+   */
+  function reportUnstableContextValues(
+    rootState: RootState,
+    unstableProviders: ContextProviderFiberInfo[],
+    now: number
+  ): void {
+    const providers = unstableProviders.filter(
+      (provider) => !rootState.reportedUnstableProviders.has(provider.type as object)
+    );
+    if (providers.length === 0) return;
+    for (const provider of providers) {
+      rootState.reportedUnstableProviders.add(provider.type as object);
+    }
+
+    const [first] = providers;
+    deliverFlush({
+      type: 'flush',
+      rootId: rootState.id,
+      timestamp: now,
+      pattern: 'unstable-context-value',
+      evidence: `${first.providerName} value in ${first.ownerName ?? 'Anonymous'} is a new object `
+        + `with the same contents (${first.consumerCount} consumers re-rendered)`,
+      suspects: providers,
+      flushedEffectsCount: 0,
+      blockingDurationMs: 0,
+      setStateLocation: null,
+      userFrame: null,
+      userStack: [],
+    });
+  }
+
+  /**
+   * Flush detection for a commit that passed the loop checks.  Only runs with
+   * a snapshot — a second commit in the task or a predicted cascade.
+   */
+  function detectFlush(
+    rootState: RootState,
+    currentSnapshot: FiberSnapshot,
+    commitStack: string | null,
+    setStateCalls: SetStateCall[] | null,
+    now: number
+  ): void {
+    reportUnstableContextValues(rootState, currentSnapshot.withUnstableContextValues, now);
+
+    // STEP 1: Forward-looking cascade report.
+    // If the previous commit predicted a cascade (via pendingLanes & SyncLane),
+    // this IS the cascade commit.  Report once using the origin snapshot.
+    if (rootState.cascadeChainActive && !rootState.reportedForCurrentChain) {
+      const report = buildFlushReport(
+        rootState.id,
+        rootState.cascadeOriginSnapshot!,
+        rootState.cascadeOriginStack,
+        commitStack,
+        rootState.cascadeOriginTime,
+        now,
+        isUserFrame,
+      );
+      if (report) {
+        rootState.reportedForCurrentChain = true;
+        deliverFlush(attachSetStateCalls(report, rootState.cascadeOriginSetStateCalls));
+      }
+    }
+
+    // STEP 2: Backward-looking fallback (Suspense, flushSync, edge cases).
+    // Handles cases where pendingLanes didn't predict the cascade.
+    else if (rootState.hadCommitInCurrentTask && !rootState.cascadeChainActive && !rootState.reportedForCurrentChain) {
+      const originSnapshot = getLastCommitSnapshot(rootState) ?? currentSnapshot;
+      const classification = classifyPattern(originSnapshot);
+      if (
+        classification.pattern === 'lazy-in-render' ||
+        classification.pattern === 'unstable-external-store-snapshot'
+      ) {
+        const report = buildFlushReport(
+          rootState.id,
+          originSnapshot,
+          rootState.lastCommitStack,
+          commitStack,
+          rootState.lastCommitTime,
+          now,
+          isUserFrame,
+        );
+        if (report) {
+          rootState.reportedForCurrentChain = true;
+          deliverFlush(attachSetStateCalls(report, setStateCalls));
+        }
+      } else if (
+        classification.pattern === 'setState-in-layout-effect' ||
+        classification.pattern === 'setState-in-lifecycle'
+      ) {
+        // pendingLanes was 0 → setState was NOT called directly in the layout effect.
+        // It was called in a microtask (queueMicrotask/Promise.then) queued by the effect.
+        const report = buildFlushReport(
+          rootState.id,
+          originSnapshot,
+          rootState.lastCommitStack,
+          commitStack,
+          rootState.lastCommitTime,
+          now,
+          isUserFrame,
+        );
+        if (report) {
+          report.pattern = 'setState-via-microtask';
+          report.evidence = classification.pattern === 'setState-in-lifecycle'
+            ? `Microtask queued by ${describeLifecycleMethods(classification.suspects as DetailedFiberInfo[])} called setState`
+            : 'Microtask queued by layout effect called setState';
+          rootState.reportedForCurrentChain = true;
+          deliverFlush(attachSetStateCalls(report, setStateCalls));
+        }
+      } else if (classification.pattern === 'setState-outside-react') {
+        const commitFrames = parseStack(commitStack);
+        const lastCommitFrames = parseStack(rootState.lastCommitStack);
+        const userStack = getUserStack(isUserFrame, commitFrames, lastCommitFrames);
+        const userFrame = userStack.length > 0 ? toSourceInfo(userStack[0]) : null;
+        if (hasFlushSyncFrame(commitFrames) || hasFlushSyncFrame(lastCommitFrames)) {
+          const report: FlushReport = {
+            type: 'flush',
+            rootId: rootState.id,
+            timestamp: now,
+            pattern: 'flushSync',
+            evidence: withStateChanges('flushSync caused synchronous re-render', originSnapshot),
+            suspects: classification.suspects,
+            flushedEffectsCount: originSnapshot.withLayoutEffects.length,
+            blockingDurationMs: now - rootState.lastCommitTime,
+            setStateLocation:
+              (originSnapshot.withLayoutEffects.find(f => f.effectSource)
+                ?? originSnapshot.withLayoutEffects[0])?.source ?? null,
+            userFrame,
+            userStack,
+          };
+          rootState.reportedForCurrentChain = true;
+          deliverFlush(attachSetStateCalls(report, setStateCalls));
+        } else {
+          // Same-task cascade with no layout effects and no flushSync.
+          // Most common cause: browser observer callback (ResizeObserver, etc.)
+          const observerName = findObserverFrame(commitFrames) ?? findObserverFrame(lastCommitFrames);
+          const evidence = withStateChanges(
+            observerName
+              ? `${observerName} callback triggered setState in same task`
+              : 'Synchronous callback triggered setState in same task',
+            originSnapshot,
+          );
+          const report: FlushReport = {
+            type: 'flush',
+            rootId: rootState.id,
+            timestamp: now,
+            pattern: 'setState-in-observer',
+            evidence,
+            suspects: classification.suspects,
+            flushedEffectsCount: originSnapshot.withLayoutEffects.length,
+            blockingDurationMs: now - rootState.lastCommitTime,
+            setStateLocation:
+              (originSnapshot.withLayoutEffects.find(f => f.effectSource)
+                ?? originSnapshot.withLayoutEffects[0])?.source ?? null,
+            userFrame,
+            userStack,
+          };
+          rootState.reportedForCurrentChain = true;
+          deliverFlush(attachSetStateCalls(report, setStateCalls));
+        }
+      }
+    }
+  }
+
+  function handleCommit(root: FiberRoot, didError = false, react = DEFAULT_REACT_ADAPTER): void {
+    if (state.disposed || state.paused) return;
+
+    const start = performance.now();
+    meter.countCommit();
+    try {
+      processCommit(root, didError, react);
+    } finally {
+      recordOverhead(performance.now() - start);
+    }
+  }
+
+  function addRoot(root: FiberRoot, react = DEFAULT_REACT_ADAPTER): void {
     if (state.disposed) return;
+    getRootState(root, react);
+  }
+
+  function getRootStats(root: FiberRoot): RootStats | null {
+    const rootState = state.roots.get(root);
+    if (!rootState) return null;
+    return {
+      id: rootState.id,
+      mode: root.tag === undefined ? null : root.tag === LegacyRoot ? 'legacy' : 'concurrent',
+      commitCount: rootState.commitCount,
+      loopCount: rootState.loopCount,
+      frozen: root.__frozenOriginals !== undefined,
+    };
+  }
 
+  function processCommit(root: FiberRoot, didError: boolean, react: ReactAdapter): void {
     const now = Date.now();
+    const rootState = getRootState(root, react);
+    rootState.commitCount++;
+    // setState calls made since this root's previous commit — they scheduled
+    // the update being committed now
+    const setStateCalls = setStateTracker?.drain(root) ?? null;
+
+    // Most tasks commit once.  Only a second commit in the task, or a sync
+    // lane left pending by this one, makes a cascade plausible — until then
+    // skip the expensive stack capture and fiber walk.
+    const willCascade = hasPendingSyncWork(root, rootState.react);
+    const cascadePlausible = rootState.hadCommitInCurrentTask || willCascade;
 
-    // Capture call stack eagerly — stored for the NEXT commit to use as the
+    // Capture call stack — stored for the NEXT commit to use as the
     // "triggering" stack.  At forced-flush time the current commit's stack is
     // just React internals, but the PREVIOUS commit's stack traces back through
     // the user code that caused the cascade (e.g. the flushSync call site).
     // Temporarily raise stackTraceLimit — the default of 10 is too shallow
     // when our 2 frames + React internals consume most of the budget.
     let commitStack: string | null = null;
-    if (onFlush) {
-      const prevLimit = Error.stackTraceLimit;
-      Error.stackTraceLimit = 30;
-      commitStack = new Error().stack ?? null;
-      Error.stackTraceLimit = prevLimit;
+    if (flushDetectionEnabled() && cascadePlausible) {
+      commitStack = meter.measure('stack', () => captureStack(STACK_DEPTH));
+    }
+
+    // Schedule task boundary detection
+    if (rootState.commitCountInCurrentTask === 0) {
+      state.rootsInCurrentTask.push(rootState);
+    }
+    if (!state.taskBoundaryPending) {
+      state.taskBoundaryPending = true;
+      channel.port2.postMessage(null);
     }
 
     // Check for sync infinite loop (too many commits in one task)
-    state.commitCountInCurrentTask++;
+    rootState.commitCountInCurrentTask++;
+
+    // Check for cross-root ping-pong before the per-root checks — each root
+    // only sees every other commit, so its own counters lag behind.
+    if (trackCrossRootChain(rootState, now)) {
+      state.lastCrossRootLoopFireTime = now;
+      handleLoopDetection(
+        root,
+        rootState,
+        'cross-root',
+        // Every participant's first commit plus the returns
+        state.crossRootSwitches + state.crossRootParticipants.length,
+        now - state.crossRootChainStart,
+        setStateCalls
+      );
+      state.crossRootSwitches = 0;
+      state.crossRootChainStart = now;
+      state.crossRootParticipants = [rootState];
+      return;
+    }
+
     if (
-      state.commitCountInCurrentTask > maxCommitsPerTask &&
-      !state.syncLoopFiredThisTask
+      rootState.commitCountInCurrentTask > rootState.maxCommitsPerTask &&
+      !rootState.syncLoopFiredThisTask
     ) {
-      state.syncLoopFiredThisTask = true;
+      rootState.syncLoopFiredThisTask = true;
       // Reset the async ring buffer — it's full of timestamps from this sync
       // loop and would falsely trigger async detection in the next task.
-      state.windowFilled = false;
-      state.windowWritePos = 0;
-      state.lastAsyncLoopFireTime = now;
+      rootState.windowFilled = false;
+      rootState.windowWritePos = 0;
+      rootState.lastAsyncLoopFireTime = now;
       handleLoopDetection(
         root,
+        rootState,
         'sync',
-        state.commitCountInCurrentTask,
-        null
+        rootState.commitCountInCurrentTask,
+        null,
+        setStateCalls
+      );
+      return;
+    }
+
+    // Snapshot the current commit when something will read it: a plausible
+    // cascade (flush report, next commit's origin), a captured error, a hot
+    // async window (passive-loop tracking), or setState instrumentation,
+    // whose wrapping happens during the walk.  Otherwise only the root fiber
+    // is kept, for getLastCommitSnapshot.
+    // Degraded to loops-only, no commit is walked.
+    const needsSnapshot = degradation !== 'loops-only' && (
+      cascadePlausible
+      || setStateTracker !== null
+      || didError
+      || hasCapturedError(root, rootState.react)
+      || isWindowHot(rootState, now)
+    );
+    const currentSnapshot = needsSnapshot
+      ? meter.measure('walk', () => snapshotCommitFibers(root, {
+        visit: setStateTracker ? (fiber) => setStateTracker.instrument(root, fiber) : undefined,
+        budgetMs: walkBudgetMs,
+        react: rootState.react,
+      }))
+      : null;
+    trackPassiveLoop(rootState, currentSnapshot);
+
+    // Check for error-boundary recovery loop (repeated error commits)
+    if (trackErrorCommits(rootState, didError, currentSnapshot, now)) {
+      rootState.lastErrorLoopFireTime = now;
+      handleLoopDetection(
+        root,
+        rootState,
+        'error-boundary-loop',
+        rootState.errorCommitCount,
+        now - rootState.errorWindowStart,
+        setStateCalls
       );
       return;
     }
 
     // Check for async infinite loop (sliding window via ring buffer)
     // Skip if sync loop already fired — the ring buffer is polluted with sync timestamps
-    if (state.windowFilled && !state.syncLoopFiredThisTask) {
-      const oldest = state.windowTimestamps[state.windowWritePos];
+    if (rootState.windowFilled && !rootState.syncLoopFiredThisTask) {
+      const oldest = rootState.windowTimestamps[rootState.windowWritePos];
       const span = now - oldest;
-      if (span < windowMs && now - state.lastAsyncLoopFireTime > windowMs) {
-        state.lastAsyncLoopFireTime = now;
+      if (span < rootState.windowMs && now - rootState.lastAsyncLoopFireTime > rootState.windowMs) {
+        rootState.lastAsyncLoopFireTime = now;
+        // The same components re-ran a passive effect and updated on every
+        // commit since the window turned hot — name the effect instead of a
+        // generic async loop
+        const pattern: LoopPattern =
+          rootState.passiveLoopStreak >= rootState.maxCommitsPerWindow - hotWindowSize(rootState)
+          ? 'passive-effect-loop'
+          : 'async';
         handleLoopDetection(
           root,
-          'async',
-          maxCommitsPerWindow + 1,
-          span
+          rootState,
+          pattern,
+          rootState.maxCommitsPerWindow + 1,
+          span,
+          setStateCalls
         );
         // Don't return — still record this commit in the ring buffer
       }
     }
-    state.windowTimestamps[state.windowWritePos] = now;
-    state.windowWritePos = (state.windowWritePos + 1) % maxCommitsPerWindow;
-    if (!state.windowFilled && state.windowWritePos === 0) {
-      state.windowFilled = true;
+    rootState.windowTimestamps[rootState.windowWritePos] = now;
+    rootState.windowWritePos = (rootState.windowWritePos + 1) % rootState.maxCommitsPerWindow;
+    if (!rootState.windowFilled && rootState.windowWritePos === 0) {
+      rootState.windowFilled = true;
     }
 
-    // Snapshot the current commit eagerly — used both for the flush report
-    // (to identify which component is being re-rendered NOW) and stored
-    // as the triggering snapshot for the next commit.
-    const currentSnapshot = snapshotCommitFibers(root);
-
-    if (onFlush && !state.syncLoopFiredThisTask && Math.random() < sampleRate) {
-      // STEP 1: Forward-looking cascade report.
-      // If the previous commit predicted a cascade (via pendingLanes & SyncLane),
-      // this IS the cascade commit.  Report once using the origin snapshot.
-      if (state.cascadeChainActive && !state.reportedForCurrentChain) {
-        const report = buildFlushReport(
-          state.cascadeOriginSnapshot!,
-          state.cascadeOriginStack,
-          commitStack,
-          state.cascadeOriginTime,
-          now,
-        );
-        if (report) {
-          state.reportedForCurrentChain = true;
-          onFlush(report);
-        }
-      }
-
-      // STEP 2: Backward-looking fallback (Suspense, flushSync, edge cases).
-      // Handles cases where pendingLanes didn't predict the cascade.
-      else if (state.hadCommitInCurrentTask && !state.cascadeChainActive && !state.reportedForCurrentChain) {
-        const classification = classifyPattern(state.lastCommitSnapshot ?? currentSnapshot);
-        if (classification.pattern === 'lazy-in-render') {
-          const report = buildFlushReport(
-            state.lastCommitSnapshot ?? currentSnapshot,
-            state.lastCommitStack,
-            commitStack,
-            state.lastCommitTime,
-            now,
-          );
-          if (report) {
-            state.reportedForCurrentChain = true;
-            onFlush(report);
-          }
-        } else if (classification.pattern === 'setState-in-layout-effect') {
-          // pendingLanes was 0 → setState was NOT called directly in the layout effect.
-          // It was called in a microtask (queueMicrotask/Promise.then) queued by the effect.
-          const report = buildFlushReport(
-            state.lastCommitSnapshot ?? currentSnapshot,
-            state.lastCommitStack,
-            commitStack,
-            state.lastCommitTime,
-            now,
-          );
-          if (report) {
-            report.pattern = 'setState-via-microtask';
-            report.evidence = 'Microtask queued by layout effect called setState';
-            state.reportedForCurrentChain = true;
-            onFlush(report);
-          }
-        } else if (classification.pattern === 'setState-outside-react') {
-          if (hasFlushSyncInStack(commitStack) || hasFlushSyncInStack(state.lastCommitStack)) {
-            const userFrame = parseUserFrame(commitStack)
-              ?? parseUserFrame(state.lastCommitStack);
-            const report: FlushReport = {
-              type: 'flush',
-              timestamp: now,
-              pattern: 'flushSync',
-              evidence: 'flushSync caused synchronous re-render',
-              suspects: classification.suspects,
-              flushedEffectsCount: (state.lastCommitSnapshot ?? currentSnapshot).withLayoutEffects.length,
-              blockingDurationMs: now - state.lastCommitTime,
-              setStateLocation:
-                ((state.lastCommitSnapshot ?? currentSnapshot).withLayoutEffects.find(f => f.effectSource)
-                  ?? (state.lastCommitSnapshot ?? currentSnapshot).withLayoutEffects[0])?.source ?? null,
-              userFrame,
-            };
-            state.reportedForCurrentChain = true;
-            onFlush(report);
-          } else {
-            // Same-task cascade with no layout effects and no flushSync.
-            // Most common cause: browser observer callback (ResizeObserver, etc.)
-            const observerName = findObserverInStack(commitStack)
-              ?? findObserverInStack(state.lastCommitStack);
-            const userFrame = parseUserFrame(commitStack)
-              ?? parseUserFrame(state.lastCommitStack);
-            const originSnapshot = state.lastCommitSnapshot ?? currentSnapshot;
-            const evidence = observerName
-              ? `${observerName} callback triggered setState in same task`
-              : 'Synchronous callback triggered setState in same task';
-            const report: FlushReport = {
-              type: 'flush',
-              timestamp: now,
-              pattern: 'setState-in-observer',
-              evidence,
-              suspects: classification.suspects,
-              flushedEffectsCount: originSnapshot.withLayoutEffects.length,
-              blockingDurationMs: now - state.lastCommitTime,
-              setStateLocation:
-                (originSnapshot.withLayoutEffects.find(f => f.effectSource)
-                  ?? originSnapshot.withLayoutEffects[0])?.source ?? null,
-              userFrame,
-            };
-            state.reportedForCurrentChain = true;
-            onFlush(report);
-          }
-        }
+    if (
+      flushDetectionEnabled() &&
+      !rootState.syncLoopFiredThisTask &&
+      Math.random() < sampleRate
+    ) {
+      if (currentSnapshot) {
+        meter.measure('classify', () => detectFlush(rootState, currentSnapshot, commitStack, setStateCalls, now));
+      } else if (now - rootState.lastContextCheckTime >= rootState.windowMs) {
+        // A lone commit is the usual way an unstable Provider value shows
+        // up.  The value is new on every render, so checking one lone commit
+        // per window, without a full snapshot, is enough to catch it.
+        rootState.lastContextCheckTime = now;
+        const providers = meter.measure('walk', () => findUnstableContextValues(root, {
+          budgetMs: walkBudgetMs,
+          react: rootState.react,
+        }));
+        reportUnstableContextValues(rootState, providers, now);
       }
     }
 
     // STEP 3: Forward-look — does THIS commit predict a cascade?
-    const willCascade = (root.pendingLanes & SyncLane) !== 0;
     if (willCascade) {
-      if (!state.cascadeChainActive) {
+      if (!rootState.cascadeChainActive) {
         // Start of a new cascade chain
-        state.cascadeChainActive = true;
-        state.cascadeOriginSnapshot = currentSnapshot;
-        state.cascadeOriginStack = commitStack;
-        state.cascadeOriginTime = now;
-        state.reportedForCurrentChain = false;
+        rootState.cascadeChainActive = true;
+        rootState.cascadeOriginSnapshot = currentSnapshot;
+        rootState.cascadeOriginStack = commitStack;
+        rootState.cascadeOriginTime = now;
+        rootState.cascadeOriginSetStateCalls = setStateCalls;
+        rootState.reportedForCurrentChain = false;
       }
       // else: chain continues, keep origin
     } else {
-      state.cascadeChainActive = false;
-      state.cascadeOriginSnapshot = null;
+      rootState.cascadeChainActive = false;
+      rootState.cascadeOriginSnapshot = null;
+      rootState.cascadeOriginSetStateCalls = null;
       // Don't reset reportedForCurrentChain here — it prevents the backward
       // fallback from spuriously firing on the commit immediately after a
       // forward-reported cascade.  It resets at task boundary and when a new
@@ -459,29 +1198,63 @@ export function createDetector(config: Partial<DetectorConfig> = {}): Detector {
     }
 
     // Update state for next commit
-    state.hadCommitInCurrentTask = true;
-    state.lastCommitTime = now;
-    state.lastCommitSnapshot = currentSnapshot;
-    state.lastCommitStack = commitStack;
+    rootState.hadCommitInCurrentTask = true;
+    rootState.lastCommitTime = now;
+    rootState.lastCommitSnapshot = currentSnapshot;
+    rootState.lastCommitFiber = root.current;
+    rootState.lastCommitStack = commitStack;
+  }
 
-    // Schedule task boundary detection
-    if (!state.taskBoundaryPending) {
-      state.taskBoundaryPending = true;
-      channel.port2.postMessage(null);
+  function configure(update: RuntimeConfig): void {
+    // Before any option changes, so a rejected update leaves none applied
+    if (update.maxCommitsPerWindow !== undefined) checkWindowSize(update.maxCommitsPerWindow);
+    if (update.onFlush !== undefined) onFlush = update.onFlush;
+    if (update.onLoop !== undefined) onLoop = update.onLoop;
+    if (update.onDegrade !== undefined) onDegrade = update.onDegrade;
+    if (update.breakOnLoop !== undefined) breakConfig = resolveBreakConfig(update.breakOnLoop);
+    if (update.sampleRate !== undefined) sampleRate = update.sampleRate;
+    if (update.maxCrossRootAlternations !== undefined) maxCrossRootAlternations = update.maxCrossRootAlternations;
+    if (update.maxErrorCommits !== undefined) maxErrorCommits = update.maxErrorCommits;
+    if (update.walkBudgetMs !== undefined) walkBudgetMs = update.walkBudgetMs;
+    if (update.overheadBudgetMs !== undefined) {
+      overheadBudgetMs = update.overheadBudgetMs;
+      // Levels reached under the old budget say nothing about the new one
+      degradation = 'full';
+      meter.resetWindow(Date.now());
+    }
+    if (update.maxCommitsPerTask !== undefined) maxCommitsPerTask = update.maxCommitsPerTask;
+    if (update.maxCommitsPerWindow !== undefined) maxCommitsPerWindow = update.maxCommitsPerWindow;
+    if (update.windowMs !== undefined) windowMs = update.windowMs;
+    if (update.rootThresholds !== undefined) rootThresholds = update.rootThresholds;
+    if (PER_ROOT_THRESHOLDS.some((key) => update[key] !== undefined)) {
+      thresholdsVersion++;
     }
   }
 
   function dispose(): void {
     state.disposed = true;
+    setStateTracker?.dispose();
     channel.port1.close();
     channel.port2.close();
   }
 
   return {
     handleCommit,
+    addRoot,
+    getRootStats,
     setBreakOnLoop(enabled: boolean | BreakOnLoopConfig): void {
       breakConfig = resolveBreakConfig(enabled);
     },
+    configure,
+    pause(): void {
+      state.paused = true;
+    },
+    resume(): void {
+      state.paused = false;
+    },
+    getOverhead() {
+      return meter.getStats(degradation);
+    },
     dispose,
   };
 }
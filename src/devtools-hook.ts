@@ -0,0 +1,159 @@
+import type {
+  DevToolsHookListener,
+  Fiber,
+  FiberRoot,
+  ReactDevToolsHook,
+  ReactInternals,
+  RendererInterface,
+} from './types';
+
+// A root whose current tree renders nothing is being unmounted
+function isUnmounting(root: FiberRoot): boolean {
+  const state = root.current.memoizedState as { element?: unknown } | null | undefined;
+  return state == null || state.element == null;
+}
+
+/**
+ * A complete DevTools hook, behaving like the one React DevTools installs:
+ * renderers get ids from 1, mounted roots are tracked per renderer, and
+ * commits are forwarded to the backend's renderer interface once it
+ * connects.  Tools that install later (the DevTools extension, react-refresh)
+ * find the surface they expect.
+ *
+ * With an existing hook, every member it implements is delegated to it,
+ * and its renderers, renderer interfaces and listeners are shared rather
+ * than copied, so both objects stay in agreement.
+ */
+export function createDevToolsHook(existingHook?: Partial<ReactDevToolsHook>): ReactDevToolsHook {
+  const renderers = existingHook?.renderers ?? new Map<number, ReactInternals>();
+  const rendererInterfaces = existingHook?.rendererInterfaces ?? new Map<number, RendererInterface>();
+  const listeners = existingHook?.listeners ?? {};
+  const fiberRoots = new Map<number, Set<FiberRoot>>();
+  let nextRendererId = 1;
+
+  function on(event: string, fn: DevToolsHookListener): void {
+    (listeners[event] ??= []).push(fn);
+  }
+
+  function off(event: string, fn: DevToolsHookListener): void {
+    const eventListeners = listeners[event];
+    if (!eventListeners) return;
+    const index = eventListeners.indexOf(fn);
+    if (index !== -1) eventListeners.splice(index, 1);
+    if (eventListeners.length === 0) delete listeners[event];
+  }
+
+  function emit(event: string, data: unknown): void {
+    // Copied: a listener may unsubscribe itself
+    listeners[event]?.slice().forEach((fn) => fn(data));
+  }
+
+  function getFiberRoots(rendererId: number): Set<FiberRoot> {
+    let roots = fiberRoots.get(rendererId);
+    if (!roots) {
+      roots = new Set();
+      fiberRoots.set(rendererId, roots);
+    }
+    return roots;
+  }
+
+  function trackRoot(id: number, root: FiberRoot): void {
+    const roots = getFiberRoots(id);
+    const known = roots.has(root);
+    const unmounting = isUnmounting(root);
+    if (!known && !unmounting) {
+      roots.add(root);
+    } else if (known && unmounting) {
+      roots.delete(root);
+    }
+  }
+
+  const ownHook: ReactDevToolsHook = {
+    supportsFiber: true,
+    renderers,
+    rendererInterfaces,
+    listeners,
+    inject(internals: ReactInternals): number {
+      // Skip ids a renderer already holds in a shared map
+      while (renderers.has(nextRendererId)) nextRendererId++;
+      const id = nextRendererId++;
+      renderers.set(id, internals);
+      emit('renderer', { id, renderer: internals });
+      return id;
+    },
+    checkDCE(): void {
+      // Only the DevTools UI reports builds that skipped dead code elimination
+    },
+    sub(event: string, fn: DevToolsHookListener): () => void {
+      on(event, fn);
+      return () => off(event, fn);
+    },
+    on,
+    off,
+    emit,
+    getFiberRoots,
+    onScheduleFiberRoot(): void {
+      // Nothing to do until react-refresh wraps it
+    },
+    onCommitFiberRoot(id: number, root: FiberRoot, priority: number): void {
+      trackRoot(id, root);
+      rendererInterfaces.get(id)?.handleCommitFiberRoot?.(root, priority);
+    },
+    onPostCommitFiberRoot(id: number, root: FiberRoot): void {
+      rendererInterfaces.get(id)?.handlePostCommitFiberRoot?.(root);
+    },
+    onCommitFiberUnmount(id: number, fiber: Fiber): void {
+      rendererInterfaces.get(id)?.handleCommitFiberUnmount?.(fiber);
+    },
+    setStrictMode(rendererId: number, isStrictMode: boolean): void {
+      const rendererInterface = rendererInterfaces.get(rendererId);
+      if (isStrictMode) {
+        rendererInterface?.patchConsoleForStrictMode?.();
+      } else {
+        rendererInterface?.unpatchConsoleForStrictMode?.();
+      }
+    },
+  };
+
+  if (!existingHook) {
+    return ownHook;
+  }
+
+  // Looked up on every call, so methods wrapped on the existing hook later
+  // are still called, as methods of it
+  type Method = (...args: unknown[]) => unknown;
+  function delegate<K extends keyof ReactDevToolsHook>(name: K): ReactDevToolsHook[K] {
+    const own = ownHook[name] as unknown as Method;
+    return ((...args: unknown[]) => {
+      const method = existingHook![name] as unknown as Method | undefined;
+      return typeof method === 'function' ? method.apply(existingHook, args) : own(...args);
+    }) as unknown as ReactDevToolsHook[K];
+  }
+
+  const delegatedInject = delegate('inject');
+  const delegatedOnCommitFiberRoot = delegate('onCommitFiberRoot');
+
+  return {
+    ...ownHook,
+    inject(internals: ReactInternals): number {
+      const id = delegatedInject(internals);
+      // An existing hook without a renderers map keeps no record for us
+      if (renderers !== existingHook.renderers) renderers.set(id, internals);
+      return id;
+    },
+    checkDCE: delegate('checkDCE'),
+    sub: delegate('sub'),
+    on: delegate('on'),
+    off: delegate('off'),
+    emit: delegate('emit'),
+    getFiberRoots: delegate('getFiberRoots'),
+    onScheduleFiberRoot: delegate('onScheduleFiberRoot'),
+    onCommitFiberRoot(id: number, root: FiberRoot, priority: number, didError: boolean): void {
+      if (typeof existingHook.getFiberRoots !== 'function') trackRoot(id, root);
+      delegatedOnCommitFiberRoot(id, root, priority, didError);
+    },
+    onPostCommitFiberRoot: delegate('onPostCommitFiberRoot'),
+    onCommitFiberUnmount: delegate('onCommitFiberUnmount'),
+    setStrictMode: delegate('setStrictMode'),
+  };
+}
@@ -0,0 +1,158 @@
+import type { Fiber, Hook, HookKind, ChangedHook } from './types';
+
+// A useSyncExternalStore hook keeps { value, getSnapshot } as its queue —
+// distinct from useState/useReducer, whose queue holds dispatch + reducer.
+interface SyncExternalStoreQueue {
+  value: unknown;
+  getSnapshot: () => unknown;
+}
+
+function isSyncExternalStoreQueue(queue: unknown): queue is SyncExternalStoreQueue {
+  return (
+    typeof queue === 'object' &&
+    queue !== null &&
+    'value' in queue &&
+    typeof (queue as { getSnapshot?: unknown }).getSnapshot === 'function'
+  );
+}
+
+// useState/useReducer keep the bound dispatcher on their queue; React hands
+// queue.dispatch back to the component on every render.
+export interface StateHookQueue {
+  dispatch: (...args: unknown[]) => unknown;
+  lastRenderedReducer: unknown;
+}
+
+export function isStateHookQueue(queue: unknown): queue is StateHookQueue {
+  return (
+    typeof queue === 'object' &&
+    queue !== null &&
+    'lastRenderedReducer' in queue &&
+    typeof (queue as { dispatch?: unknown }).dispatch === 'function'
+  );
+}
+
+/** First hook of a function component fiber (memoizedState is the hook list head). */
+export function getFirstHook(fiber: Fiber | null | undefined): Hook | null {
+  const head = fiber?.memoizedState;
+  if (typeof head !== 'object' || head === null || !('next' in head)) {
+    return null;
+  }
+  return head as Hook;
+}
+
+/**
+ * Returns true if getSnapshot hands back a different reference on
+ * consecutive calls — the same check React's DEV build warns about
+ * ("The result of getSnapshot should be cached").
+ */
+function isUncachedSnapshot(queue: SyncExternalStoreQueue): boolean {
+  try {
+    return !Object.is(queue.getSnapshot(), queue.getSnapshot());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Indices of useSyncExternalStore hooks whose committed snapshot changed
+ * identity since the alternate AND whose getSnapshot is uncached.  A real
+ * store notification changes the snapshot once; an uncached getSnapshot
+ * changes it on every render, forcing a sync re-render each commit.
+ * Without compareAlternate (the alternate isn't the previous commit), any
+ * uncached getSnapshot counts; the caller knows the fiber re-rendered.
+ */
+export function findUnstableStoreHooks(fiber: Fiber, compareAlternate = true): number[] {
+  const indices: number[] = [];
+  let hook = getFirstHook(fiber);
+  let previous = compareAlternate ? getFirstHook(fiber.alternate) : null;
+  let index = 0;
+
+  while (hook && (previous || !compareAlternate)) {
+    if (
+      isSyncExternalStoreQueue(hook.queue) &&
+      (!previous || !Object.is(hook.memoizedState, previous.memoizedState)) &&
+      isUncachedSnapshot(hook.queue)
+    ) {
+      indices.push(index);
+    }
+    hook = hook.next;
+    previous = previous?.next ?? null;
+    index++;
+  }
+
+  return indices;
+}
+
+// useState is useReducer with React's built-in basicStateReducer.  Minified
+// production builds lose the name, so those hooks report as 'reducer'.
+function isBasicStateReducer(reducer: unknown): boolean {
+  return typeof reducer === 'function' && reducer.name === 'basicStateReducer';
+}
+
+// Effect hooks store a fresh effect object on every render, so they would
+// always look changed — recognise them to leave them out of the diff.
+function isEffectState(state: unknown): boolean {
+  return typeof state === 'object' && state !== null && 'create' in state && 'tag' in state;
+}
+
+/**
+ * Kind of a hook, inferred from the shape of its memoizedState and queue.
+ * Returns null for effects and hooks that can't be told apart (useId,
+ * useContext keeps no hook at all).
+ */
+export function getHookKind(hook: Hook): HookKind | null {
+  const { memoizedState, queue } = hook;
+  if (isSyncExternalStoreQueue(queue)) {
+    return 'external-store';
+  }
+  if (isStateHookQueue(queue)) {
+    return isBasicStateReducer(queue.lastRenderedReducer) ? 'state' : 'reducer';
+  }
+  if (queue != null || isEffectState(memoizedState)) {
+    return null;
+  }
+  // useMemo/useCallback keep [value, deps]
+  if (
+    Array.isArray(memoizedState) &&
+    memoizedState.length === 2 &&
+    (memoizedState[1] === null || Array.isArray(memoizedState[1]))
+  ) {
+    return 'memo';
+  }
+  if (
+    typeof memoizedState === 'object' &&
+    memoizedState !== null &&
+    Object.keys(memoizedState).length === 1 &&
+    'current' in memoizedState
+  ) {
+    return 'ref';
+  }
+  return null;
+}
+
+/**
+ * Hooks whose memoizedState changed identity since the alternate.  A ref
+ * keeps the same object for the component's lifetime, so only a replaced
+ * ref hook (never in practice) shows up — mutations of .current don't.
+ */
+export function findChangedHooks(fiber: Fiber): ChangedHook[] {
+  const changed: ChangedHook[] = [];
+  let hook = getFirstHook(fiber);
+  let previous = getFirstHook(fiber.alternate);
+  let index = 0;
+
+  while (hook && previous) {
+    if (!Object.is(hook.memoizedState, previous.memoizedState)) {
+      const kind = getHookKind(hook);
+      if (kind) {
+        changed.push({ index, kind });
+      }
+    }
+    hook = hook.next;
+    previous = previous.next;
+    index++;
+  }
+
+  return changed;
+}
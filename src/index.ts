@@ -1,5 +1,18 @@
-import type { InstallConfig, BreakOnLoopConfig, FiberRoot, Fiber, ReactInternals } from './types';
+import type {
+  InstallConfig,
+  BreakOnLoopConfig,
+  FiberRoot,
+  ReactInternals,
+  OverheadStats,
+  ReactAdapter,
+  ReactDevToolsHook,
+  Detector,
+  RootInfo,
+  RuntimeConfig,
+} from './types';
 import { createDetector } from './detector';
+import { getReactAdapter } from './react-version';
+import { createDevToolsHook } from './devtools-hook';
 
 export type {
   InstallConfig,
@@ -9,13 +22,179 @@ export type {
   Report,
   FlushPattern,
   LoopPattern,
+  CrossRootParticipant,
   SourceInfo,
+  StackFrame,
+  FrameMatcher,
   FiberInfo,
+  PassiveEffectFiberInfo,
+  ErrorBoundaryFiberInfo,
+  ContextProviderFiberInfo,
+  FiberRoot,
+  RootThresholds,
+  RootThresholdsResolver,
+  SetStateCall,
+  ChangedHook,
+  HookKind,
+  RenderReason,
+  DegradationLevel,
+  DegradationEvent,
+  OverheadStats,
+  RootMode,
+  RootInfo,
+  RuntimeConfig,
 } from './types';
 
 export interface Observer {
   uninstall(): void;
   setBreakOnLoop(enabled: boolean | BreakOnLoopConfig): void;
+  /** Change thresholds, callbacks and sampling without reinstalling. */
+  configure(config: RuntimeConfig): void;
+  /** Stop detecting until resume(); the hook stays installed. */
+  pause(): void;
+  resume(): void;
+  /** Time the observer has spent, by category, and its current degradation level. */
+  getOverhead(): OverheadStats;
+  /** Every mounted root the DevTools hook knows of, with what this observer has seen of it. */
+  getRoots(): RootInfo[];
+}
+
+type RegisterRenderer = (id: number | undefined, internals: ReactInternals) => number;
+type CommitHandler = (id: number, root: FiberRoot, didError: boolean) => void;
+
+interface RendererEntry {
+  internals: ReactInternals;
+  // Fiber layout of the renderer's React version
+  react: ReactAdapter;
+}
+
+/**
+ * Observers installed into the same hook.  The hook is wrapped once, by the
+ * first install(); later ones join, and it is restored when the last leaves
+ * unless React holds on to it (see replaceHook).
+ */
+interface ObserverRegistry {
+  hook: Partial<ReactDevToolsHook>;
+  detectors: Set<Detector>;
+  // Keyed by the id inject() hands back
+  renderers: Map<number, RendererEntry>;
+  /** Returns false when the hook has to stay installed. */
+  restoreHook: () => boolean;
+}
+
+let registry: ObserverRegistry | null = null;
+
+/**
+ * Install our own hook object before React loads.  React calls it from then
+ * on; it implements the whole hook surface, passing every call on to the
+ * hook it replaced, if any.
+ */
+function replaceHook(
+  existingHook: Partial<ReactDevToolsHook> | undefined,
+  registerRenderer: RegisterRenderer,
+  handleCommit: CommitHandler,
+): () => boolean {
+  const hook = createDevToolsHook(existingHook);
+  const { inject, onCommitFiberRoot } = hook;
+  let injected = false;
+  hook.inject = (internals: ReactInternals): number => {
+    injected = true;
+    return registerRenderer(inject(internals), internals);
+  };
+  hook.onCommitFiberRoot = (id: number, root: FiberRoot, priority: number, didError: boolean): void => {
+    handleCommit(id, root, didError);
+    onCommitFiberRoot(id, root, priority, didError);
+  };
+  window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+
+  return () => {
+    // React keeps calling the hook it injected into, so once it has, ours
+    // stays installed as a pass-through that a later install() rejoins.
+    if (injected) return false;
+    // A hook installed after ours may chain to it: leave it in place.  Ours
+    // stays in the chain, passing calls through with no observers left.
+    if (window.__REACT_DEVTOOLS_GLOBAL_HOOK__ === hook) {
+      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = existingHook;
+    }
+    return true;
+  };
+}
+
+/**
+ * Late install: React keeps a reference to the hook it injected into, so a
+ * replacement would never be called.  Wrap the hook's methods in place
+ * instead and pick up the renderers that already injected.
+ */
+function attachToHook(
+  hook: Partial<ReactDevToolsHook>,
+  registerRenderer: RegisterRenderer,
+  handleCommit: CommitHandler,
+): () => boolean {
+  const originalInject = hook.inject;
+  const originalOnCommitFiberRoot = hook.onCommitFiberRoot;
+
+  hook.renderers?.forEach((internals, id) => registerRenderer(id, internals));
+
+  const inject = function (this: unknown, internals: ReactInternals): number {
+    return registerRenderer(originalInject?.call(this, internals), internals);
+  };
+  const onCommitFiberRoot = function (
+    this: unknown,
+    id: number,
+    root: FiberRoot,
+    priority: number,
+    didError: boolean
+  ): void {
+    handleCommit(id, root, didError);
+    originalOnCommitFiberRoot?.call(this, id, root, priority, didError);
+  };
+  hook.inject = inject;
+  hook.onCommitFiberRoot = onCommitFiberRoot;
+
+  return () => {
+    // Something wrapped the hook after us: leave the chain intact.  Our
+    // wrappers stay in it, passing calls through with no observers left.
+    if (hook.inject === inject) hook.inject = originalInject;
+    if (hook.onCommitFiberRoot === onCommitFiberRoot) hook.onCommitFiberRoot = originalOnCommitFiberRoot;
+    return true;
+  };
+}
+
+function createRegistry(attach: boolean | undefined): ObserverRegistry {
+  const existingHook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+  const detectors = new Set<Detector>();
+  const renderers = new Map<number, RendererEntry>();
+  let nextRendererId = 1;
+
+  function registerRenderer(id: number | undefined, internals: ReactInternals): number {
+    const rendererId = id ?? nextRendererId++;
+    renderers.set(rendererId, { internals, react: getReactAdapter(internals.version) });
+    return rendererId;
+  }
+
+  function handleCommit(id: number, root: FiberRoot, didError: boolean): void {
+    const react = renderers.get(id)?.react;
+    // Copied: a callback may uninstall its own observer
+    for (const detector of [...detectors]) {
+      try {
+        detector.handleCommit(root, didError, react);
+      } catch {
+        // Observability must never break the observed application
+      }
+    }
+  }
+
+  // Renderers on the existing hook mean React has loaded and holds on to it
+  const restoreHook = existingHook && (attach ?? (existingHook.renderers?.size ?? 0) > 0)
+    ? attachToHook(existingHook, registerRenderer, handleCommit)
+    : replaceHook(existingHook, registerRenderer, handleCommit);
+
+  return {
+    hook: window.__REACT_DEVTOOLS_GLOBAL_HOOK__!,
+    detectors,
+    renderers,
+    restoreHook,
+  };
 }
 
 export function install(config: InstallConfig = {}): Observer {
@@ -27,9 +206,19 @@ export function install(config: InstallConfig = {}): Observer {
     maxCommitsPerTask,
     maxCommitsPerWindow,
     windowMs,
+    maxCrossRootAlternations,
+    maxErrorCommits,
+    instrumentSetState,
+    walkBudgetMs,
+    overheadBudgetMs,
+    onDegrade,
+    rootThresholds,
+    excludeFrames,
+    includeFrames,
+    firstPartyPaths,
+    attach,
   } = config;
 
-  const existingHook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
   const detector = createDetector({
     sampleRate,
     onFlush,
@@ -38,41 +227,71 @@ export function install(config: InstallConfig = {}): Observer {
     maxCommitsPerTask,
     maxCommitsPerWindow,
     windowMs,
+    maxCrossRootAlternations,
+    maxErrorCommits,
+    instrumentSetState,
+    walkBudgetMs,
+    overheadBudgetMs,
+    onDegrade,
+    rootThresholds,
+    excludeFrames,
+    includeFrames,
+    firstPartyPaths,
   });
 
-  window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
-    supportsFiber: true,
-    inject(internals: ReactInternals): number {
-      return existingHook?.inject?.(internals) ?? 1;
-    },
-    onCommitFiberRoot(
-      id: number,
-      root: FiberRoot,
-      priority: number,
-      didError: boolean
-    ): void {
-      try {
-        detector.handleCommit(root);
-      } catch {
-        // Observability must never break the observed application
-      }
-      existingHook?.onCommitFiberRoot?.(id, root, priority, didError);
-    },
-    onPostCommitFiberRoot(id: number, root: FiberRoot): void {
-      existingHook?.onPostCommitFiberRoot?.(id, root);
-    },
-    onCommitFiberUnmount(id: number, fiber: Fiber): void {
-      existingHook?.onCommitFiberUnmount?.(id, fiber);
-    },
-  };
+  // A registry left with no observers is rejoined only while its hook is
+  // still the global one
+  if (registry && registry.detectors.size === 0 && window.__REACT_DEVTOOLS_GLOBAL_HOOK__ !== registry.hook) {
+    registry = null;
+  }
+  const current = registry ??= createRegistry(attach);
+  current.detectors.add(detector);
+  // Roots that committed before this observer joined
+  current.renderers.forEach(({ react }, id) => {
+    current.hook.getFiberRoots?.(id)?.forEach((root) => detector.addRoot(root, react));
+  });
 
   return {
     uninstall(): void {
+      if (!current.detectors.delete(detector)) return;
       detector.dispose();
-      window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = existingHook;
+      if (current.detectors.size === 0 && current.restoreHook()) {
+        registry = null;
+      }
     },
     setBreakOnLoop(enabled: boolean | BreakOnLoopConfig): void {
       detector.setBreakOnLoop(enabled);
     },
+    configure(update: RuntimeConfig): void {
+      detector.configure(update);
+    },
+    pause(): void {
+      detector.pause();
+    },
+    resume(): void {
+      detector.resume();
+    },
+    getOverhead(): OverheadStats {
+      return detector.getOverhead();
+    },
+    getRoots(): RootInfo[] {
+      if (!current.detectors.has(detector)) return [];
+      const roots: RootInfo[] = [];
+      current.renderers.forEach(({ internals }, rendererId) => {
+        current.hook.getFiberRoots?.(rendererId)?.forEach((root) => {
+          const stats = detector.getRootStats(root);
+          if (!stats) return;
+          roots.push({
+            ...stats,
+            root,
+            rendererId,
+            rendererName: internals.rendererPackageName ?? null,
+            rendererVersion: internals.version ?? null,
+          });
+        });
+      });
+      // In the order the observer first saw them, as report rootIds
+      return roots.sort((a, b) => a.id - b.id);
+    },
   };
 }
@@ -0,0 +1,75 @@
+import type { OverheadStats, DegradationLevel } from './types';
+import { OVERHEAD_WINDOW_MS } from './constants';
+
+export type OverheadCategory = 'walk' | 'stack' | 'classify' | 'callback';
+
+export interface OverheadMeter {
+  /** Run fn and attribute its time, minus nested measurements, to category. */
+  measure<T>(category: OverheadCategory, fn: () => T): T;
+  /**
+   * Add observer time to the totals and the current budget window.
+   * Returns the time spent in the window so far.
+   */
+  record(elapsedMs: number, now: number): number;
+  countCommit(): void;
+  /** Start a fresh budget window, e.g. after stepping down a level. */
+  resetWindow(now: number): void;
+  getStats(level: DegradationLevel): OverheadStats;
+}
+
+export function createOverheadMeter(): OverheadMeter {
+  const categoryMs: Record<OverheadCategory, number> = {
+    walk: 0,
+    stack: 0,
+    classify: 0,
+    callback: 0,
+  };
+  let commits = 0;
+  let totalMs = 0;
+  let windowStart = 0;
+  let windowMs = 0;
+  // Time measured by measure() calls nested in the one currently running
+  let nestedMs = 0;
+
+  return {
+    measure<T>(category: OverheadCategory, fn: () => T): T {
+      const outerNestedMs = nestedMs;
+      nestedMs = 0;
+      const start = performance.now();
+      try {
+        return fn();
+      } finally {
+        const elapsed = performance.now() - start;
+        categoryMs[category] += elapsed - nestedMs;
+        nestedMs = outerNestedMs + elapsed;
+      }
+    },
+    record(elapsedMs: number, now: number): number {
+      totalMs += elapsedMs;
+      if (now - windowStart >= OVERHEAD_WINDOW_MS) {
+        windowStart = now;
+        windowMs = 0;
+      }
+      windowMs += elapsedMs;
+      return windowMs;
+    },
+    countCommit(): void {
+      commits++;
+    },
+    resetWindow(now: number): void {
+      windowStart = now;
+      windowMs = 0;
+    },
+    getStats(level: DegradationLevel): OverheadStats {
+      return {
+        commits,
+        totalMs,
+        walkMs: categoryMs.walk,
+        stackMs: categoryMs.stack,
+        classifyMs: categoryMs.classify,
+        callbackMs: categoryMs.callback,
+        level,
+      };
+    },
+  };
+}
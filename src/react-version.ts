@@ -0,0 +1,164 @@
+import type { Fiber, FiberRoot, ReactAdapter } from './types';
+import {
+  FunctionComponent,
+  ClassComponent,
+  ContextProvider,
+  SuspenseComponent,
+  OffscreenComponent,
+  PerformedWork,
+  Update,
+  Passive,
+  LayoutMask,
+  DidCapture,
+  Visibility,
+  SubtreeWorkMask,
+  HookHasEffect,
+  HookLayout,
+  HookPassive,
+  SyncLane,
+} from './constants';
+
+const STABLE_TAGS = { FunctionComponent, ClassComponent, ContextProvider, SuspenseComponent };
+
+// Expiration time of synchronous work in React 16 (MAX_SIGNED_31_BIT_INT)
+const Sync = 1073741823;
+
+// React 17 stores a LanePriority in root.callbackPriority, not a lane
+const SyncLanePriority = 15;
+
+// React 16.8 – 17: effectTag/flags before the 18 renumbering.  Layout work on
+// a component is Update (effects, lifecycles) or Callback (setState callbacks).
+const LEGACY_FLAGS = {
+  PerformedWork: 0b000000000001,
+  Update: 0b000000000100,
+  Passive: 0b001000000000,
+  LayoutMask: 0b000000100100,
+  DidCapture: 0b000001000000,
+  // Hidden Offscreen trees are tracked with Update until 18
+  Visibility: 0,
+  // No subtreeFlags to check it against
+  SubtreeWorkMask: 0,
+};
+
+const REACT_16_8: ReactAdapter = {
+  version: '16.8',
+  // No Offscreen fiber; tag 22 is Block from 16.13
+  tags: { ...STABLE_TAGS, OffscreenComponent: -1 },
+  flags: LEGACY_FLAGS,
+  // Mount/unmount pairs per phase; an effect whose deps are unchanged gets tag 0
+  hookEffects: { HasEffect: 0, Layout: 0b00100000, Passive: 0b01000000 },
+  flagsField: 'effectTag',
+  hasSubtreeFlags: false,
+  lanes: {
+    usesLanes: false,
+    // 16.9+; on 16.8 the field is missing and cascades are found after the fact
+    pendingField: 'firstPendingTime',
+    callbackPriorityField: 'callbackExpirationTime',
+    sync: Sync,
+    syncCallbackPriority: Sync,
+  },
+};
+
+const REACT_16_13: ReactAdapter = {
+  ...REACT_16_8,
+  version: '16.13',
+  hookEffects: { HasEffect: 0b001, Layout: 0b010, Passive: 0b100 },
+};
+
+const REACT_17: ReactAdapter = {
+  ...REACT_16_13,
+  version: '17',
+  // Block keeps tag 22 until 18
+  tags: { ...STABLE_TAGS, OffscreenComponent: 23 },
+  flagsField: 'flags',
+  lanes: {
+    usesLanes: true,
+    pendingField: 'pendingLanes',
+    callbackPriorityField: 'callbackPriority',
+    sync: 0b0001,
+    syncCallbackPriority: SyncLanePriority,
+  },
+};
+
+// The values in constants.ts
+const REACT_18: ReactAdapter = {
+  version: '18',
+  tags: { ...STABLE_TAGS, OffscreenComponent },
+  flags: { PerformedWork, Update, Passive, LayoutMask, DidCapture, Visibility, SubtreeWorkMask },
+  hookEffects: { HasEffect: HookHasEffect, Layout: HookLayout, Passive: HookPassive },
+  flagsField: 'flags',
+  hasSubtreeFlags: true,
+  lanes: {
+    usesLanes: true,
+    pendingField: 'pendingLanes',
+    callbackPriorityField: 'callbackPriority',
+    sync: SyncLane,
+    syncCallbackPriority: SyncLane,
+  },
+};
+
+const REACT_19: ReactAdapter = {
+  ...REACT_18,
+  version: '19',
+  // SyncHydrationLane took the lowest bit
+  lanes: { ...REACT_18.lanes, sync: 0b0010, syncCallbackPriority: 0b0010 },
+};
+
+/** Used until a renderer injects with its version, and for roots committed before that. */
+export const DEFAULT_REACT_ADAPTER = REACT_18;
+
+const warnedVersions = new Set<string>();
+
+function warnUnknownVersion(version: string, fallback: ReactAdapter): void {
+  if (warnedVersions.has(version)) return;
+  warnedVersions.add(version);
+  console.warn(
+    `[react-flush-observer] React ${version} is outside the supported range (16.8 – 19); reading fibers as React ${fallback.version}.`
+  );
+}
+
+/**
+ * Select the fiber layout for the version a renderer passes to inject().
+ * Versions outside 16.8 – 19 are read with the nearest known layout, after a
+ * warning.  Builds without a usable version (0.0.0-experimental) track main,
+ * so they get the newest one.
+ */
+export function getReactAdapter(version: string | undefined): ReactAdapter {
+  if (version === undefined) {
+    return DEFAULT_REACT_ADAPTER;
+  }
+  const match = /^(\d+)\.(\d+)/.exec(version);
+  const major = match ? Number(match[1]) : 0;
+  const minor = match ? Number(match[2]) : 0;
+
+  if (major === 16 && minor >= 8) return minor >= 13 ? REACT_16_13 : REACT_16_8;
+  if (major === 17) return REACT_17;
+  if (major === 18) return REACT_18;
+  if (major === 19) return REACT_19;
+
+  const nearest = match && major > 0 && major <= 16 ? REACT_16_8 : REACT_19;
+  warnUnknownVersion(version, nearest);
+  return nearest;
+}
+
+export function getFiberFlags(fiber: Fiber, react: ReactAdapter): number {
+  return (react.flagsField === 'effectTag' ? fiber.effectTag : fiber.flags) ?? 0;
+}
+
+/**
+ * Work still scheduled on a fiber or below it: its lanes, or on React 16 the
+ * later of its expiration times.  0 when there is none.
+ */
+export function getPendingWork(fiber: Fiber, react: ReactAdapter): number {
+  if (react.lanes.usesLanes) {
+    return fiber.lanes | fiber.childLanes;
+  }
+  return Math.max(fiber.expirationTime ?? 0, fiber.childExpirationTime ?? 0);
+}
+
+/** True when the root has synchronous work scheduled, i.e. another commit follows in this task. */
+export function hasPendingSyncWork(root: FiberRoot, react: ReactAdapter): boolean {
+  const { usesLanes, pendingField, sync } = react.lanes;
+  const pending = root[pendingField] ?? 0;
+  return usesLanes ? (pending & sync) !== 0 : pending === sync;
+}
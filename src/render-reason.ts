@@ -0,0 +1,71 @@
+import { ClassComponent } from './constants';
+import type { Fiber, ChangedHook, ContextDependency, ReactContext, RenderReason } from './types';
+
+export function getProviderName(context: ReactContext): string {
+  return `${context.displayName ?? 'Context'}.Provider`;
+}
+
+/**
+ * First context whose value differs from the one read in the previous
+ * render.  React reads contexts in the same order on every render, so the
+ * two dependency lists line up entry by entry.
+ */
+function findChangedContext(fiber: Fiber, alternate: Fiber): ContextDependency | null {
+  let dependency = fiber.dependencies?.firstContext ?? null;
+  let previous = alternate.dependencies?.firstContext ?? null;
+  while (dependency && previous) {
+    if (
+      dependency.context === previous.context &&
+      !Object.is(dependency.memoizedValue, previous.memoizedValue)
+    ) {
+      return dependency;
+    }
+    dependency = dependency.next;
+    previous = previous.next;
+  }
+  return null;
+}
+
+function findChangedProps(props: unknown, previousProps: unknown): string[] {
+  if (
+    typeof props !== 'object' || props === null ||
+    typeof previousProps !== 'object' || previousProps === null
+  ) {
+    return [];
+  }
+  const next = props as Record<string, unknown>;
+  const previous = previousProps as Record<string, unknown>;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return [...keys].filter(key => !Object.is(next[key], previous[key]));
+}
+
+/**
+ * Why a component fiber rendered in this commit, in the order React itself
+ * would give: its own state, a context it reads, new props.  A bailed-out
+ * fiber keeps its props object and state, so it gets null like a mount.
+ * Function components clone their hook list on every render, so only a
+ * changed hook, not a new list, counts as their state changing.
+ */
+export function getRenderReason(fiber: Fiber, changedHooks: ChangedHook[]): RenderReason | null {
+  const alternate = fiber.alternate;
+  if (!alternate) return null;
+
+  const stateChanged = fiber.tag === ClassComponent
+    ? fiber.memoizedState !== alternate.memoizedState
+    : changedHooks.length > 0;
+  if (stateChanged) {
+    return { kind: 'state', changedHooks };
+  }
+
+  const context = findChangedContext(fiber, alternate);
+  if (context) {
+    return { kind: 'context', providerName: getProviderName(context.context) };
+  }
+
+  if (fiber.memoizedProps !== alternate.memoizedProps) {
+    const changedKeys = findChangedProps(fiber.memoizedProps, alternate.memoizedProps);
+    return changedKeys.length > 0 ? { kind: 'props', changedKeys } : { kind: 'parent' };
+  }
+
+  return null;
+}
@@ -0,0 +1,134 @@
+import type { Fiber, FiberRoot, SetStateCall } from './types';
+import { ClassComponent } from './constants';
+import { getFirstHook, isStateHookQueue } from './hooks';
+import { getComponentName, isFunctionComponentFiber } from './walker';
+import { parseUserFrame } from './stack-parser';
+import type { FrameFilter } from './stack-parser';
+
+// Upper bound on calls kept per root between commits — a burst of setState
+// calls outside React (e.g. a store emitting in a loop) must not grow unbounded.
+const MAX_PENDING_CALLS = 50;
+
+interface ClassUpdater {
+  enqueueSetState(instance: unknown, payload: unknown, callback?: unknown, callerName?: string): void;
+}
+
+export interface SetStateTracker {
+  /** Wrap the setState dispatchers of a component fiber belonging to `root`. */
+  instrument(root: FiberRoot, fiber: Fiber): void;
+  /** Return and clear the calls recorded for `root` since the last drain. */
+  drain(root: FiberRoot): SetStateCall[];
+  dispose(): void;
+}
+
+// captureStack ← record ← dispatcher wrapper: dropped so the stack starts at
+// the caller of setState
+const OWN_FRAMES = 3;
+
+function captureStack(): string | null {
+  // Same depth as the detector's commit stack, plus our own frames
+  const prevLimit = Error.stackTraceLimit;
+  Error.stackTraceLimit = 30 + OWN_FRAMES;
+  const stack = new Error().stack;
+  Error.stackTraceLimit = prevLimit;
+  if (!stack) return null;
+
+  // V8 prefixes the frames with the error message; other engines don't
+  const lines = stack.split('\n');
+  const headerLines = lines[0].startsWith('Error') ? 1 : 0;
+  return [
+    ...lines.slice(0, headerLines),
+    ...lines.slice(headerLines + OWN_FRAMES),
+  ].join('\n');
+}
+
+/** isUserFrame picks the frame recorded as each call's location. */
+export function createSetStateTracker(isUserFrame?: FrameFilter): SetStateTracker {
+  let disposed = false;
+  const pending = new WeakMap<FiberRoot, SetStateCall[]>();
+  // Wrappers we installed, so a queue or instance is never wrapped twice
+  const wrappedDispatchers = new WeakSet<object>();
+  const wrappedInstances = new WeakSet<object>();
+
+  function record(root: FiberRoot, componentName: string | null, hookIndex: number | null): void {
+    if (disposed) return;
+    const stack = captureStack();
+    const call: SetStateCall = {
+      componentName,
+      hookIndex,
+      location: parseUserFrame(stack, isUserFrame),
+      stack,
+    };
+    const calls = pending.get(root);
+    if (!calls) {
+      pending.set(root, [call]);
+      return;
+    }
+    calls.push(call);
+    if (calls.length > MAX_PENDING_CALLS) {
+      calls.shift();
+    }
+  }
+
+  function instrumentHooks(root: FiberRoot, fiber: Fiber, componentName: string | null): void {
+    let hook = getFirstHook(fiber);
+    let hookIndex = 0;
+    while (hook) {
+      const queue = hook.queue;
+      if (isStateHookQueue(queue) && !wrappedDispatchers.has(queue.dispatch)) {
+        const original = queue.dispatch;
+        const index = hookIndex;
+        const wrapped = function (this: unknown, ...args: unknown[]): unknown {
+          record(root, componentName, index);
+          return original.apply(this, args);
+        };
+        wrappedDispatchers.add(wrapped);
+        queue.dispatch = wrapped;
+      }
+      hook = hook.next;
+      hookIndex++;
+    }
+  }
+
+  function instrumentInstance(root: FiberRoot, fiber: Fiber, componentName: string | null): void {
+    const instance = fiber.stateNode as { updater?: ClassUpdater } | null | undefined;
+    if (!instance || wrappedInstances.has(instance)) return;
+    const updater = instance.updater;
+    if (!updater || typeof updater.enqueueSetState !== 'function') return;
+
+    // The updater object is shared by every class instance in the renderer,
+    // so give this instance its own wrapper instead of patching the shared one.
+    const instanceUpdater: ClassUpdater = Object.create(updater);
+    instanceUpdater.enqueueSetState = function (...args) {
+      record(root, componentName, null);
+      return updater.enqueueSetState(...args);
+    };
+    instance.updater = instanceUpdater;
+    wrappedInstances.add(instance);
+  }
+
+  return {
+    instrument(root: FiberRoot, fiber: Fiber): void {
+      if (disposed) return;
+      try {
+        if (isFunctionComponentFiber(fiber)) {
+          instrumentHooks(root, fiber, getComponentName(fiber));
+        } else if (fiber.tag === ClassComponent) {
+          instrumentInstance(root, fiber, getComponentName(fiber));
+        }
+      } catch {
+        // Frozen or exotic hook objects — skip rather than break the walk
+      }
+    },
+    drain(root: FiberRoot): SetStateCall[] {
+      const calls = pending.get(root) ?? [];
+      pending.delete(root);
+      return calls;
+    },
+    dispose(): void {
+      // Installed wrappers can't be enumerated (weakly held); they become
+      // pass-through once disposed.
+      disposed = true;
+    },
+  };
+}
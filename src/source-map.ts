@@ -0,0 +1,162 @@
+/** Version 3 source map as written by bundlers.  Index maps (`sections`) are not supported. */
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: (string | null)[];
+  names?: string[];
+  mappings: string;
+}
+
+export interface OriginalPosition {
+  source: string;
+  /** 1-based, like stack traces. */
+  line: number;
+  /** 0-based, like the source map spec. */
+  column: number;
+  /** Original identifier at the position, when the map records one. */
+  name: string | null;
+}
+
+/**
+ * One mapping: [generatedColumn] for generated code with no original, or
+ * [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?]
+ * with absolute, 0-based values.
+ */
+export type MappingSegment = number[];
+
+export interface SourceMap {
+  /** Original position of a 1-based generated line and 0-based column; null column means the line's first mapping. */
+  originalPositionFor(line: number, column: number | null): OriginalPosition | null;
+  /** Every mapping, by 0-based generated line. */
+  getMappings(): MappingSegment[][];
+  readonly sources: string[];
+  readonly names: string[];
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64_CHARS].map((char, index) => [char.charCodeAt(0), index]));
+
+const VLQ_CONTINUATION = 0b100000;
+const VLQ_VALUE_MASK = 0b011111;
+const COMMA = ','.charCodeAt(0);
+const SEMICOLON = ';'.charCodeAt(0);
+
+/** Decode the `mappings` field into absolute segments per generated line, sorted by column. */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let line: MappingSegment[] = [];
+  // Every field but the generated column is relative to the previous segment in the whole map
+  const state = [0, 0, 0, 0, 0];
+  let i = 0;
+
+  while (i < mappings.length) {
+    const code = mappings.charCodeAt(i);
+    if (code === SEMICOLON) {
+      lines.push(line);
+      line = [];
+      state[0] = 0;
+      i++;
+      continue;
+    }
+    if (code === COMMA) {
+      i++;
+      continue;
+    }
+
+    const segment: MappingSegment = [];
+    while (i < mappings.length && mappings.charCodeAt(i) !== COMMA && mappings.charCodeAt(i) !== SEMICOLON) {
+      let result = 0;
+      let shift = 0;
+      let digit: number;
+      do {
+        const value = BASE64_VALUES.get(mappings.charCodeAt(i));
+        if (value === undefined) {
+          throw new Error(`Invalid character '${mappings[i]}' at ${i} in source map mappings`);
+        }
+        digit = value;
+        result += (digit & VLQ_VALUE_MASK) * 2 ** shift;
+        shift += 5;
+        i++;
+      } while (digit & VLQ_CONTINUATION);
+
+      // The lowest bit is the sign
+      const delta = result % 2 === 1 ? -(result - 1) / 2 : result / 2;
+      const field = segment.length;
+      if (field < state.length) {
+        state[field] += delta;
+        segment.push(state[field]);
+      }
+    }
+    if (segment.length === 1 || segment.length >= 4) {
+      line.push(segment);
+    }
+  }
+  lines.push(line);
+
+  for (const segments of lines) {
+    segments.sort((a, b) => a[0] - b[0]);
+  }
+  return lines;
+}
+
+function resolveSource(source: string | null, sourceRoot: string | undefined): string {
+  if (source === null) return '';
+  if (!sourceRoot) return source;
+  return sourceRoot.endsWith('/') ? sourceRoot + source : `${sourceRoot}/${source}`;
+}
+
+/** Parse a map's JSON or object form.  The mappings are decoded on the first lookup. */
+export function createSourceMap(raw: RawSourceMap | string): SourceMap {
+  const map: RawSourceMap = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  if (map.version !== 3 || typeof map.mappings !== 'string') {
+    throw new Error('Only version 3 source maps with a mappings field are supported');
+  }
+  const sources = map.sources.map((source) => resolveSource(source, map.sourceRoot));
+  const names = map.names ?? [];
+  let decoded: MappingSegment[][] | null = null;
+
+  function getMappings(): MappingSegment[][] {
+    decoded ??= decodeMappings(map.mappings);
+    return decoded;
+  }
+
+  return {
+    sources,
+    names,
+    getMappings,
+    originalPositionFor(line, column) {
+      const segments = getMappings()[line - 1];
+      if (!segments || segments.length === 0) {
+        return null;
+      }
+
+      // Last segment starting at or before the column
+      let segment: MappingSegment | undefined = segments[0];
+      if (column !== null) {
+        let low = 0;
+        let high = segments.length - 1;
+        segment = undefined;
+        while (low <= high) {
+          const mid = (low + high) >> 1;
+          if (segments[mid][0] <= column) {
+            segment = segments[mid];
+            low = mid + 1;
+          } else {
+            high = mid - 1;
+          }
+        }
+      }
+      if (!segment || segment.length === 1) {
+        return null;
+      }
+
+      return {
+        source: sources[segment[1]] ?? '',
+        line: segment[2] + 1,
+        column: segment[3],
+        name: segment.length === 5 ? names[segment[4]] ?? null : null,
+      };
+    },
+  };
+}
@@ -1,16 +1,8 @@
-import type { SourceInfo } from './types';
+import type { FrameMatcher, SourceInfo, StackFrame } from './types';
 
 const OBSERVER_NAMES = ['ResizeObserver', 'MutationObserver', 'IntersectionObserver'] as const;
 export type ObserverName = typeof OBSERVER_NAMES[number];
 
-export function findObserverInStack(stack: string | null): ObserverName | null {
-  if (!stack) return null;
-  for (const name of OBSERVER_NAMES) {
-    if (stack.includes(name)) return name;
-  }
-  return null;
-}
-
 const INTERNAL_PATTERNS = [
   'node_modules',
   'react-dom',
@@ -19,34 +11,241 @@ const INTERNAL_PATTERNS = [
   '<anonymous>',
 ];
 
-const FRAME_REGEX = /at\s+(?:.*?\s+\()?(.+?):(\d+):(\d+)\)?$/;
+// "http://x/a.js:12:5", "a.js:12" — the column is missing in some engines
+const LOCATION_REGEX = /^(.*?):(\d+)(?::(\d+))?$/;
 
-export function parseUserFrame(stack: string | null): SourceInfo | null {
-  if (!stack) {
-    return null;
-  }
+// V8 eval origin: "eval at fn (http://x/a.js:12:5), <anonymous>:1:1"
+const V8_EVAL_ORIGIN_REGEX = /\((.+?):(\d+):(\d+)\)/;
 
-  const lines = stack.split('\n');
+// SpiderMonkey eval origin: "http://x/a.js line 12 > eval:1:1", also "> Function"
+const SPIDERMONKEY_EVAL_REGEX = /^(.*?) line (\d+) > (?:eval|Function)/;
 
-  for (const line of lines) {
-    const match = FRAME_REGEX.exec(line);
-    if (!match) {
-      continue;
+function createFrame(functionName: string | null): StackFrame {
+  return {
+    functionName: functionName || null,
+    fileName: null,
+    lineNumber: null,
+    columnNumber: null,
+    isEval: false,
+    isAsync: false,
+  };
+}
+
+function readLocation(frame: StackFrame, location: string): void {
+  const match = LOCATION_REGEX.exec(location);
+  if (match) {
+    frame.fileName = match[1];
+    frame.lineNumber = parseInt(match[2], 10);
+    frame.columnNumber = match[3] ? parseInt(match[3], 10) : null;
+  } else if (location) {
+    // "native", "<anonymous>", "[native code]"
+    frame.fileName = location;
+  }
+}
+
+/**
+ * Split "name (location)" at the parenthesis matching the trailing one, so
+ * locations that nest parentheses (eval origins) stay whole.
+ */
+function splitV8Frame(body: string): [string, string] {
+  if (!body.endsWith(')')) {
+    return ['', body];
+  }
+  let depth = 0;
+  for (let i = body.length - 1; i >= 0; i--) {
+    if (body[i] === ')') depth++;
+    else if (body[i] === '(' && --depth === 0) {
+      return [body.slice(0, i).trim(), body.slice(i + 1, -1)];
     }
+  }
+  return ['', body];
+}
 
-    const fileName = match[1];
-    const isInternal = INTERNAL_PATTERNS.some((pattern) =>
-      fileName.includes(pattern)
-    );
-
-    if (!isInternal) {
-      return {
-        fileName,
-        lineNumber: parseInt(match[2], 10),
-        columnNumber: parseInt(match[3], 10),
-      };
+// "    at fn (file:1:2)", "    at file:1:2", "    at async fn (file:1:2)"
+function parseV8Frame(body: string): StackFrame {
+  let isAsync = false;
+  if (body.startsWith('async ')) {
+    isAsync = true;
+    body = body.slice('async '.length);
+  }
+  const [name, location] = splitV8Frame(body);
+  const frame = createFrame(name);
+  frame.isAsync = isAsync;
+
+  if (location.startsWith('eval at ')) {
+    frame.isEval = true;
+    const origin = V8_EVAL_ORIGIN_REGEX.exec(location);
+    if (origin) {
+      frame.fileName = origin[1];
+      frame.lineNumber = parseInt(origin[2], 10);
+      frame.columnNumber = parseInt(origin[3], 10);
     }
+  } else {
+    readLocation(frame, location);
+  }
+  return frame;
+}
+
+const TOP_LEVEL_NAMES = new Set(['global code', 'module code', 'eval code']);
+
+function isSpiderMonkeyLocation(location: string): boolean {
+  return location === '' || location === '[native code]'
+    || LOCATION_REGEX.test(location) || SPIDERMONKEY_EVAL_REGEX.test(location);
+}
+
+// "fn@file:1:2", "@file:1:2", "async*fn@file:1:2", "fn/<@file:1:2"
+function parseSpiderMonkeyFrame(line: string): StackFrame | null {
+  // Names rarely contain '@'; URLs often do (/@fs/, node_modules/@scope)
+  const at = line.indexOf('@');
+  let name = line.slice(0, at);
+  const location = line.slice(at + 1);
+  // An error message that happens to contain '@'
+  if (!isSpiderMonkeyLocation(location)) {
+    return null;
+  }
+
+  let isAsync = false;
+  if (name.startsWith('async*')) {
+    isAsync = true;
+    name = name.slice('async*'.length);
+  }
+  // SpiderMonkey names closures after their enclosing function: "outer/<"
+  name = name.replace(/\/?<+$/, '');
+  // JavaScriptCore names top-level frames after the kind of code
+  const frame = createFrame(TOP_LEVEL_NAMES.has(name) ? null : name);
+  frame.isAsync = isAsync;
+  frame.isEval = name === 'eval code';
+
+  const evalOrigin = SPIDERMONKEY_EVAL_REGEX.exec(location);
+  if (evalOrigin) {
+    frame.isEval = true;
+    frame.fileName = evalOrigin[1];
+    frame.lineNumber = parseInt(evalOrigin[2], 10);
+  } else {
+    readLocation(frame, location);
+  }
+  return frame;
+}
+
+/**
+ * Parse one line of an Error.stack string in V8 (Chrome, Edge, Node),
+ * SpiderMonkey (Firefox) or JavaScriptCore (Safari) format, including their
+ * eval and async frames.  Null for message lines and anything else that
+ * isn't a frame.
+ */
+export function parseStackLine(rawLine: string): StackFrame | null {
+  const line = rawLine.trim();
+  if (line.startsWith('at ')) {
+    return parseV8Frame(line.slice('at '.length).trim());
+  }
+  if (line.includes('@')) {
+    return parseSpiderMonkeyFrame(line);
+  }
+  if (line === '[native code]' || (LOCATION_REGEX.test(line) && !/\s/.test(line))) {
+    // JavaScriptCore omits the '@' for anonymous functions in some versions
+    const frame = createFrame(null);
+    readLocation(frame, line);
+    return frame;
   }
+  return null;
+}
+
+/** Parse an Error.stack string into frames, innermost first.  See parseStackLine. */
+export function parseStack(stack: string | null): StackFrame[] {
+  if (!stack) {
+    return [];
+  }
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    const frame = parseStackLine(line);
+    if (frame) frames.push(frame);
+  }
+  return frames;
+}
+
+/** Decides whether a parsed frame belongs to the application. */
+export type FrameFilter = (frame: StackFrame) => boolean;
+
+export interface FrameFilterOptions {
+  excludeFrames?: FrameMatcher[];
+  includeFrames?: FrameMatcher[];
+  firstPartyPaths?: (string | RegExp)[] | null;
+}
+
+function matchesFrame(matcher: FrameMatcher, frame: StackFrame): boolean {
+  if (typeof matcher === 'function') {
+    return matcher(frame);
+  }
+  const { fileName } = frame;
+  if (fileName === null) {
+    return false;
+  }
+  return typeof matcher === 'string' ? fileName.includes(matcher) : matcher.test(fileName);
+}
+
+function isInternalFrame(frame: StackFrame): boolean {
+  const { fileName } = frame;
+  return fileName === null || INTERNAL_PATTERNS.some((pattern) => fileName.includes(pattern));
+}
+
+const isDefaultUserFrame: FrameFilter = (frame) => !isInternalFrame(frame);
 
+/**
+ * Build the user-code test from InstallConfig: excludeFrames rule a frame
+ * out, then includeFrames rule it in, then it must be under firstPartyPaths
+ * when they are given, or outside the built-in internal packages otherwise.
+ */
+export function createFrameFilter(options: FrameFilterOptions = {}): FrameFilter {
+  const { excludeFrames = [], includeFrames = [], firstPartyPaths = null } = options;
+  if (excludeFrames.length === 0 && includeFrames.length === 0 && !firstPartyPaths) {
+    return isDefaultUserFrame;
+  }
+  return (frame) => {
+    if (excludeFrames.some((matcher) => matchesFrame(matcher, frame))) return false;
+    if (includeFrames.some((matcher) => matchesFrame(matcher, frame))) return true;
+    if (firstPartyPaths) {
+      return firstPartyPaths.some((matcher) => matchesFrame(matcher, frame));
+    }
+    return !isInternalFrame(frame);
+  };
+}
+
+/** Frames in application code, innermost first.  Frames without a line can't be located and never count. */
+export function filterUserFrames(frames: StackFrame[], isUserFrame: FrameFilter = isDefaultUserFrame): StackFrame[] {
+  return frames.filter((frame) => frame.lineNumber !== null && isUserFrame(frame));
+}
+
+export function toSourceInfo(frame: StackFrame): SourceInfo {
+  return {
+    fileName: frame.fileName,
+    lineNumber: frame.lineNumber,
+    columnNumber: frame.columnNumber,
+  };
+}
+
+/** First frame in application code: by default, not React, the scheduler or the observer. */
+export function findUserFrame(frames: StackFrame[], isUserFrame: FrameFilter = isDefaultUserFrame): SourceInfo | null {
+  const frame = frames.find((f) => f.lineNumber !== null && isUserFrame(f));
+  return frame ? toSourceInfo(frame) : null;
+}
+
+export function parseUserFrame(stack: string | null, isUserFrame: FrameFilter = isDefaultUserFrame): SourceInfo | null {
+  return findUserFrame(parseStack(stack), isUserFrame);
+}
+
+/**
+ * Browser observer whose callback is on the stack.  V8 names callback frames
+ * after their receiver ("ResizeObserver.<anonymous>"); other engines don't,
+ * so there this only finds callbacks named after the observer.
+ */
+export function findObserverFrame(frames: StackFrame[]): ObserverName | null {
+  for (const name of OBSERVER_NAMES) {
+    if (frames.some((frame) => frame.functionName?.includes(name))) return name;
+  }
   return null;
 }
+
+export function findObserverInStack(stack: string | null): ObserverName | null {
+  return findObserverFrame(parseStack(stack));
+}
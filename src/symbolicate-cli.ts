@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { createSymbolicator } from './symbolicate';
+import type { Symbolicator } from './symbolicate';
+import type { Report } from './types';
+
+const USAGE = `Usage: react-flush-observer-symbolicate --maps <dir> [--maps <dir> ...] [--out <file>] [reports ...]
+
+Rewrite the locations and stacks of exported flush and loop reports to
+original sources, using the .map files found under each --maps directory.
+
+Report files hold a single report, a JSON array of reports or one report
+per line (NDJSON).  Without files, reports are read from stdin.  A single
+JSON document is written back in the same shape; anything else is written
+as NDJSON.  Entries that aren't reports are passed through unchanged.`;
+
+interface CliArgs {
+  mapDirs: string[];
+  out: string | null;
+  inputs: string[];
+  help: boolean;
+}
+
+export interface CliIO {
+  readFile(file: string): string;
+  readStdin(): string;
+  writeFile(file: string, contents: string): void;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const NODE_IO: CliIO = {
+  readFile: (file) => fs.readFileSync(file, 'utf8'),
+  readStdin: () => fs.readFileSync(0, 'utf8'),
+  writeFile: (file, contents) => fs.writeFileSync(file, contents),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { mapDirs: [], out: null, inputs: [], help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--maps' || arg === '--out') {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new Error(`${arg} needs a value`);
+      }
+      if (arg === '--maps') args.mapDirs.push(value);
+      else args.out = value;
+    } else if (arg === '--help' || arg === '-h') {
+      args.help = true;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      args.inputs.push(arg);
+    }
+  }
+  return args;
+}
+
+function isReport(value: unknown): value is Report {
+  const type = (value as { type?: unknown } | null)?.type;
+  return type === 'flush' || type === 'loop';
+}
+
+/** A whole JSON document, or null when the text is NDJSON. */
+function parseDocument(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function parseLines(text: string, source: string): unknown[] {
+  return text.split('\n').filter((line) => line.trim() !== '').map((line, index) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`${source}:${index + 1}: not valid JSON`);
+    }
+  });
+}
+
+function symbolicateEntry(symbolicator: Symbolicator, entry: unknown): unknown {
+  return isReport(entry) ? symbolicator.symbolicateReport(entry) : entry;
+}
+
+/** Run the CLI and return its exit code. */
+export function main(argv: string[], io: CliIO = NODE_IO): number {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}\n`);
+    return 1;
+  }
+  if (args.help) {
+    io.stdout(`${USAGE}\n`);
+    return 0;
+  }
+  if (args.mapDirs.length === 0) {
+    io.stderr(`--maps is required\n\n${USAGE}\n`);
+    return 1;
+  }
+
+  try {
+    const symbolicator = createSymbolicator({ mapDirs: args.mapDirs });
+    const texts = args.inputs.length > 0
+      ? args.inputs.map((file) => ({ source: file, text: io.readFile(file) }))
+      : [{ source: 'stdin', text: io.readStdin() }];
+
+    const documents = texts.map(({ source, text }) => ({ source, text, document: parseDocument(text) }));
+    let output: string;
+    if (documents.length === 1 && documents[0].document !== null) {
+      const { document } = documents[0];
+      output = JSON.stringify(Array.isArray(document)
+        ? document.map((entry) => symbolicateEntry(symbolicator, entry))
+        : symbolicateEntry(symbolicator, document), null, 2);
+    } else {
+      output = documents
+        .flatMap(({ source, text, document }) => {
+          if (document === null) return parseLines(text, source);
+          return Array.isArray(document) ? document : [document];
+        })
+        .map((entry) => JSON.stringify(symbolicateEntry(symbolicator, entry)))
+        .join('\n');
+    }
+
+    if (args.out) {
+      io.writeFile(args.out, `${output}\n`);
+    } else {
+      io.stdout(`${output}\n`);
+    }
+    return 0;
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createSourceMap } from './source-map';
+import type { OriginalPosition, SourceMap } from './source-map';
+import { parseStackLine } from './stack-parser';
+import type {
+  CrossRootParticipant,
+  DetailedFiberInfo,
+  ErrorBoundaryFiberInfo,
+  FiberInfo,
+  FiberSnapshot,
+  Report,
+  SetStateCall,
+  SourceInfo,
+  StackFrame,
+} from './types';
+
+export interface SymbolicateOptions {
+  /** Directories searched, recursively, for .map files. */
+  mapDirs: string[];
+}
+
+export interface Symbolicator {
+  /** Original position of a 1-based line and column in a generated file; null when no map covers it. */
+  lookup(fileName: string, line: number, column: number | null): OriginalPosition | null;
+  symbolicateSourceInfo(info: SourceInfo): SourceInfo;
+  symbolicateFrame(frame: StackFrame): StackFrame;
+  /** Rewrite the frames of an Error.stack string, leaving lines it can't map as they are. */
+  symbolicateStack(stack: string): string;
+  /** Original name of a minified identifier, or the name itself when it can't be told. */
+  symbolicateName(name: string): string;
+  /** Copy of a report with every location, stack and component name rewritten. */
+  symbolicateReport<T extends Report>(report: T): T;
+}
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*/;
+
+function findMapFiles(dir: string, found: string[] = []): string[] {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules') findMapFiles(entryPath, found);
+    } else if (entry.name.endsWith('.map')) {
+      found.push(entryPath);
+    }
+  }
+  return found;
+}
+
+// "https://cdn.example.com/assets/index-3f2a.js?v=1#x" → "index-3f2a.js"
+function getGeneratedName(fileName: string): string {
+  const withoutQuery = fileName.replace(/[?#].*$/, '');
+  return withoutQuery.slice(withoutQuery.lastIndexOf('/') + 1);
+}
+
+/**
+ * Minified identifier → original name, from the segments of every map whose
+ * generated file sits next to it.  Names reused for different originals
+ * (short names in nested scopes) are left out.
+ */
+function buildNameIndex(mapFiles: Map<string, string>, loadMap: (mapFile: string) => SourceMap | null): Map<string, string> {
+  const originals = new Map<string, Set<string>>();
+  for (const mapFile of mapFiles.values()) {
+    const generatedFile = mapFile.slice(0, -'.map'.length);
+    const map = loadMap(mapFile);
+    if (!map || !fs.existsSync(generatedFile)) continue;
+
+    const lines = fs.readFileSync(generatedFile, 'utf8').split('\n');
+    map.getMappings().forEach((segments, lineIndex) => {
+      for (const segment of segments) {
+        if (segment.length !== 5) continue;
+        const generated = IDENTIFIER_REGEX.exec(lines[lineIndex]?.slice(segment[0]) ?? '')?.[0];
+        const original = map.names[segment[4]];
+        if (!generated || !original || generated === original) continue;
+        let names = originals.get(generated);
+        if (!names) {
+          names = new Set();
+          originals.set(generated, names);
+        }
+        names.add(original);
+      }
+    });
+  }
+
+  const index = new Map<string, string>();
+  for (const [generated, names] of originals) {
+    if (names.size === 1) index.set(generated, [...names][0]);
+  }
+  return index;
+}
+
+function formatFrame(frame: StackFrame, v8: boolean): string {
+  const location = `${frame.fileName}:${frame.lineNumber}${frame.columnNumber !== null ? `:${frame.columnNumber}` : ''}`;
+  if (v8) {
+    return frame.functionName ? `    at ${frame.functionName} (${location})` : `    at ${location}`;
+  }
+  return `${frame.functionName ?? ''}@${location}`;
+}
+
+/**
+ * Map report locations back to original sources with local .map files, for
+ * reports collected from minified production builds.  A generated file is
+ * matched to the map named after it (`index-3f2a.js` → `index-3f2a.js.map`)
+ * anywhere under mapDirs; nothing is fetched.
+ */
+export function createSymbolicator(options: SymbolicateOptions): Symbolicator {
+  // Generated file name → map path; the first directory wins on clashes
+  const mapFiles = new Map<string, string>();
+  for (const dir of options.mapDirs) {
+    for (const mapFile of findMapFiles(dir)) {
+      const generatedName = path.basename(mapFile, '.map');
+      if (!mapFiles.has(generatedName)) mapFiles.set(generatedName, mapFile);
+    }
+  }
+
+  const maps = new Map<string, SourceMap | null>();
+  let nameIndex: Map<string, string> | null = null;
+
+  function loadMap(mapFile: string): SourceMap | null {
+    if (!maps.has(mapFile)) {
+      try {
+        maps.set(mapFile, createSourceMap(fs.readFileSync(mapFile, 'utf8')));
+      } catch {
+        // Unreadable or unsupported maps leave their frames as they are
+        maps.set(mapFile, null);
+      }
+    }
+    return maps.get(mapFile)!;
+  }
+
+  function lookup(fileName: string, line: number, column: number | null): OriginalPosition | null {
+    const mapFile = mapFiles.get(getGeneratedName(fileName));
+    const map = mapFile ? loadMap(mapFile) : null;
+    // Stack columns are 1-based, map columns 0-based
+    return map?.originalPositionFor(line, column !== null ? column - 1 : null) ?? null;
+  }
+
+  function symbolicateName(name: string): string {
+    nameIndex ??= buildNameIndex(mapFiles, loadMap);
+    const index = nameIndex;
+    // "Object.a", "new b": rename each identifier on its own
+    return name.replace(/[A-Za-z_$][\w$]*/g, (identifier) => index.get(identifier) ?? identifier);
+  }
+
+  function symbolicateSourceInfo(info: SourceInfo): SourceInfo {
+    if (info.fileName === null || info.lineNumber === null) return info;
+    const position = lookup(info.fileName, info.lineNumber, info.columnNumber);
+    if (!position) return info;
+    return { fileName: position.source, lineNumber: position.line, columnNumber: position.column + 1 };
+  }
+
+  function symbolicateFrame(frame: StackFrame): StackFrame {
+    const source = symbolicateSourceInfo(frame);
+    if (source === frame) return frame;
+    return {
+      ...frame,
+      ...source,
+      functionName: frame.functionName !== null ? symbolicateName(frame.functionName) : null,
+    };
+  }
+
+  function symbolicateStack(stack: string): string {
+    return stack.split('\n').map((line) => {
+      const frame = parseStackLine(line);
+      if (!frame || frame.isEval) return line;
+      const mapped = symbolicateFrame(frame);
+      return mapped === frame ? line : formatFrame(mapped, line.trim().startsWith('at '));
+    }).join('\n');
+  }
+
+  function symbolicateSourceOrNull(info: SourceInfo | null | undefined): SourceInfo | null | undefined {
+    return info ? symbolicateSourceInfo(info) : info;
+  }
+
+  // "App > a > b", or "… > a > b" for a path cut short
+  function symbolicatePath(componentPath: string): string {
+    return componentPath.split(' > ').map((name) => (name === '…' ? name : symbolicateName(name))).join(' > ');
+  }
+
+  function symbolicateFiberInfo<T extends FiberInfo>(info: T): T {
+    // The fields of the FiberInfo subtypes that name components
+    const named = info as T & Partial<DetailedFiberInfo & ErrorBoundaryFiberInfo>;
+    return {
+      ...info,
+      ...(info.ownerName && { ownerName: symbolicateName(info.ownerName) }),
+      // Reports from before componentPath existed don't carry it
+      ...(info.componentPath && { componentPath: symbolicatePath(info.componentPath) }),
+      ...(named.componentName && { componentName: symbolicateName(named.componentName) }),
+      ...(named.throwingComponent && { throwingComponent: symbolicateName(named.throwingComponent) }),
+      ...(named.source !== undefined && { source: symbolicateSourceOrNull(named.source) }),
+      ...(named.componentStack && { componentStack: named.componentStack.map(symbolicateName) }),
+    };
+  }
+
+  function symbolicateSnapshot<S extends FiberSnapshot | null>(snapshot: S): S {
+    if (!snapshot) return snapshot;
+    return {
+      ...snapshot,
+      withPassiveEffects: snapshot.withPassiveEffects.map(symbolicateFiberInfo),
+      withLayoutEffects: snapshot.withLayoutEffects.map(symbolicateFiberInfo),
+      withSuspense: snapshot.withSuspense.map(symbolicateFiberInfo),
+      withUpdates: snapshot.withUpdates.map(symbolicateFiberInfo),
+      withErrorBoundaries: snapshot.withErrorBoundaries.map(symbolicateFiberInfo),
+      withUnstableStoreSnapshots: snapshot.withUnstableStoreSnapshots.map(symbolicateFiberInfo),
+      withUnstableContextValues: snapshot.withUnstableContextValues.map(symbolicateFiberInfo),
+    };
+  }
+
+  function symbolicateParticipant(participant: CrossRootParticipant): CrossRootParticipant {
+    return {
+      ...participant,
+      suspects: participant.suspects.map(symbolicateName),
+      suspectPaths: participant.suspectPaths.map(symbolicatePath),
+    };
+  }
+
+  function symbolicateSetStateCall(call: SetStateCall): SetStateCall {
+    return {
+      ...call,
+      location: symbolicateSourceOrNull(call.location) ?? null,
+      stack: call.stack !== null ? symbolicateStack(call.stack) : null,
+    };
+  }
+
+  function symbolicateReport<T extends Report>(report: T): T {
+    const common = {
+      userFrame: symbolicateSourceOrNull(report.userFrame) ?? null,
+      // Reports from before userStack existed don't carry it
+      ...(report.userStack && { userStack: report.userStack.map(symbolicateFrame) }),
+      ...(report.setStateCalls && { setStateCalls: report.setStateCalls.map(symbolicateSetStateCall) }),
+    };
+    if (report.type === 'flush') {
+      return {
+        ...report,
+        ...common,
+        suspects: report.suspects.map(symbolicateFiberInfo),
+        setStateLocation: symbolicateSourceOrNull(report.setStateLocation),
+      };
+    }
+    return {
+      ...report,
+      ...common,
+      stack: report.stack !== null ? symbolicateStack(report.stack) : null,
+      ...(report.suspects && { suspects: report.suspects.map(symbolicateName) }),
+      ...(report.suspectPaths && { suspectPaths: report.suspectPaths.map(symbolicatePath) }),
+      ...(report.roots && { roots: report.roots.map(symbolicateParticipant) }),
+      ...(report.effectOwners && { effectOwners: report.effectOwners.map(symbolicateFiberInfo) }),
+      ...(report.errorBoundaries && { errorBoundaries: report.errorBoundaries.map(symbolicateFiberInfo) }),
+      triggeringCommit: symbolicateSnapshot(report.triggeringCommit),
+      forcedCommit: symbolicateSnapshot(report.forcedCommit),
+    };
+  }
+
+  return {
+    lookup,
+    symbolicateSourceInfo,
+    symbolicateFrame,
+    symbolicateStack,
+    symbolicateName,
+    symbolicateReport,
+  };
+}
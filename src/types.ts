@@ -6,38 +6,89 @@ export interface DebugSource {
   columnNumber?: number;
 }
 
+/**
+ * React 19 owner entry for a Server Component, found in _debugOwner and
+ * _debugInfo.  Links to its own owner like a fiber does.
+ */
+export interface ReactComponentInfo {
+  name: string;
+  env?: string;
+  key?: string | null;
+  owner?: Fiber | ReactComponentInfo | null;
+}
+
 export interface Effect {
   tag: number;
   create: () => unknown;
   next: Effect;
 }
 
+export interface Hook {
+  memoizedState: unknown;
+  queue?: unknown;
+  next: Hook | null;
+}
+
+export interface ReactContext {
+  displayName?: string;
+}
+
+// One entry per context read during render, with the value it saw
+export interface ContextDependency {
+  context: ReactContext;
+  memoizedValue: unknown;
+  next: ContextDependency | null;
+}
+
+export interface Dependencies {
+  firstContext: ContextDependency | null;
+}
+
 export interface UpdateQueue {
   lastEffect?: Effect;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type FiberType = ((...args: any[]) => any) | {
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export type FiberType = ((...args: any[]) => any) | (new (...args: any[]) => any) | {
   displayName?: string;
   name?: string;
   __componentId?: unknown;
+  // forwardRef types: the component's render function
+  render?: ((...args: any[]) => any) & { displayName?: string };
+  // Context Provider types (React 18 and earlier)
+  _context?: ReactContext;
 } | string | null;
+/* eslint-enable @typescript-eslint/no-explicit-any */
 
 export interface Fiber {
   tag: number;
   flags: number;
+  // React 16 name for flags
+  effectTag?: number;
   type?: FiberType;
   lanes: number;
   childLanes: number;
+  // React 16 counterparts of lanes and childLanes
+  expirationTime?: number;
+  childExpirationTime?: number;
   subtreeFlags: number;
   current?: Fiber;
   alternate?: Fiber | null;
+  return?: Fiber | null;
   child: Fiber | null;
   sibling: Fiber | null;
   updateQueue?: UpdateQueue | null;
   memoizedState?: unknown;
+  memoizedProps?: unknown;
+  dependencies?: Dependencies | null;
+  stateNode?: unknown;
+  // Removed in React 19, which records _debugStack instead
   _debugSource?: DebugSource;
-  _debugOwner?: Fiber;
+  // React 19: the Error created with the element, or its stack
+  _debugStack?: Error | string | null;
+  _debugOwner?: Fiber | ReactComponentInfo | null;
+  // React 19: Server Components (and awaited I/O) the fiber was rendered by
+  _debugInfo?: ReadonlyArray<Partial<ReactComponentInfo>> | null;
 }
 
 export interface FrozenOriginals {
@@ -48,9 +99,15 @@ export interface FrozenOriginals {
 
 export interface FiberRoot {
   current: Fiber;
+  // LegacyRoot for ReactDOM.render, otherwise a concurrent root
+  tag?: number;
+  containerInfo?: unknown;
   pendingLanes: number;
   callbackPriority: number;
   callbackNode: unknown;
+  // React 16 schedules with expiration times instead of lanes
+  firstPendingTime?: number;
+  callbackExpirationTime?: number;
   __frozenOriginals?: FrozenOriginals;
 }
 
@@ -62,32 +119,111 @@ export interface SourceInfo {
   columnNumber: number | null;
 }
 
+/** One frame of a V8, SpiderMonkey or JavaScriptCore stack trace. */
+export interface StackFrame extends SourceInfo {
+  /** Null for anonymous frames and top-level code. */
+  functionName: string | null;
+  /** Code run by eval() or new Function().  The location is the eval call site when the engine reports it. */
+  isEval: boolean;
+  /** An async function resumed after an await. */
+  isAsync: boolean;
+}
+
+/**
+ * Matches stack frames: a string is looked for in the frame's file name, a
+ * RegExp is tested against it, and a predicate gets the whole frame.
+ */
+export type FrameMatcher = string | RegExp | ((frame: StackFrame) => boolean);
+
 export interface FiberInfo {
   componentId: unknown;
   tag: number;
   type: unknown;
   ownerName: string | null;
+  /**
+   * Named component ancestors, root first and ending at ownerName, e.g.
+   * "App > Layout > Sidebar".  Read from fiber.return, so also available in
+   * production builds; long paths keep the innermost components after "… >".
+   */
+  componentPath: string | null;
+  /** Why the component rendered in this commit; null for mounts, bailouts and non-component fibers. */
+  reason: RenderReason | null;
 }
 
+export type ClassLifecycleMethod = 'componentDidMount' | 'componentDidUpdate';
+
 export interface DetailedFiberInfo extends FiberInfo {
   source: SourceInfo | null;
   componentStack: string[] | null;
+  /** Layout effect source, or the lifecycle method source for class components. */
   effectSource: string | null;
+  /** Class lifecycle that ran in this commit; null for function components. */
+  lifecycleMethod: ClassLifecycleMethod | null;
+}
+
+export interface PassiveEffectFiberInfo extends FiberInfo {
+  /** Name of the fiber's own component (ownerName is its nearest ancestor). */
+  componentName: string | null;
+  effectSource: string | null;
+}
+
+export interface ErrorBoundaryFiberInfo extends FiberInfo {
+  componentName: string | null;
+  /** First component rendered inside the boundary after it captured — in a
+   *  recovery loop, the one whose commit keeps throwing. */
+  throwingComponent: string | null;
+}
+
+export interface ExternalStoreFiberInfo extends FiberInfo {
+  componentName: string | null;
+  /** Position of the useSyncExternalStore call in the component's hook list (0-based). */
+  hookIndex: number;
+}
+
+export interface ContextProviderFiberInfo extends FiberInfo {
+  /** e.g. "Theme.Provider"; ownerName is the component rendering it. */
+  providerName: string;
+  /** Consumers below the provider that re-rendered with the new value. */
+  consumerCount: number;
 }
 
 export interface SuspenseFiberInfo extends FiberInfo {
   resolvedName: string | null;
 }
 
+export type HookKind = 'state' | 'reducer' | 'memo' | 'ref' | 'external-store';
+
+export interface ChangedHook {
+  /** Position in the component's hook list, counting every hook call. */
+  index: number;
+  kind: HookKind;
+}
+
+export type RenderReason =
+  | { kind: 'state'; changedHooks: ChangedHook[] }
+  | { kind: 'context'; providerName: string }
+  | { kind: 'props'; changedKeys: string[] }
+  // New props object with the same values — the parent re-rendered
+  | { kind: 'parent' };
+
 export interface UpdatesFiberInfo extends FiberInfo {
   lanes: number;
+  componentName: string | null;
+  /** Hooks whose memoizedState differs from the alternate's. Empty for class components. */
+  changedHooks: ChangedHook[];
 }
 
 export interface FiberSnapshot {
-  withPassiveEffects: FiberInfo[];
+  withPassiveEffects: PassiveEffectFiberInfo[];
   withLayoutEffects: DetailedFiberInfo[];
   withSuspense: SuspenseFiberInfo[];
   withUpdates: UpdatesFiberInfo[];
+  withErrorBoundaries: ErrorBoundaryFiberInfo[];
+  withUnstableStoreSnapshots: ExternalStoreFiberInfo[];
+  /** Providers whose value changed identity but not contents. */
+  withUnstableContextValues: ContextProviderFiberInfo[];
+  /** True when the walk ran out of its time budget before covering the tree. */
+  partial: boolean;
 }
 
 // Detection types
@@ -95,12 +231,27 @@ export interface FiberSnapshot {
 export type FlushPattern =
   | 'setState-outside-react'
   | 'setState-in-layout-effect'
+  | 'setState-in-lifecycle'
   | 'setState-via-microtask'
   | 'setState-in-observer'
   | 'lazy-in-render'
+  | 'unstable-external-store-snapshot'
+  | 'unstable-context-value'
   | 'flushSync';
 
-export type LoopPattern = 'sync' | 'async';
+export type LoopPattern =
+  | 'sync'
+  | 'async'
+  | 'cross-root'
+  | 'passive-effect-loop'
+  | 'error-boundary-loop';
+
+export interface CrossRootParticipant {
+  rootId: number;
+  suspects: string[];
+  /** Component path of each suspect, in the same order, ending with the suspect. */
+  suspectPaths: string[];
+}
 
 export interface ClassificationResult {
   pattern: FlushPattern;
@@ -108,8 +259,19 @@ export interface ClassificationResult {
   evidence: string;
 }
 
+export interface SetStateCall {
+  componentName: string | null;
+  /** Position of the useState/useReducer hook that was updated; null for class setState. */
+  hookIndex: number | null;
+  /** First user-code frame at the moment setState was called. */
+  location: SourceInfo | null;
+  stack: string | null;
+}
+
 export interface FlushReport {
   type: 'flush';
+  /** Detector-assigned id of the FiberRoot that committed (stable for the root's lifetime). */
+  rootId: number;
   timestamp: number;
   pattern: FlushPattern;
   evidence: string;
@@ -119,18 +281,35 @@ export interface FlushReport {
   setStateLocation?: SourceInfo | null;
   /** First user-code frame from the commit call stack (parsed via Error().stack). */
   userFrame: SourceInfo | null;
+  /** Every user-code frame of the stack userFrame came from, innermost first. */
+  userStack: StackFrame[];
+  /** setState calls that led to the cascade, oldest first. Present when instrumentSetState recorded any. */
+  setStateCalls?: SetStateCall[];
 }
 
 export interface LoopReport {
   type: 'loop';
+  rootId: number;
   pattern: LoopPattern;
   commitCount: number;
   windowMs: number | null;
   stack: string | null;
   suspects: string[];
+  /** Component path of each suspect, in the same order, ending with the suspect. */
+  suspectPaths: string[];
   triggeringCommit: FiberSnapshot | null;
   forcedCommit: FiberSnapshot;
   userFrame: SourceInfo | null;
+  /** Every user-code frame of stack, innermost first. */
+  userStack: StackFrame[];
+  /** Roots in a cross-root cycle, in the order they joined it. Only set for 'cross-root'. */
+  roots?: CrossRootParticipant[];
+  /** Components whose passive effect re-triggers every commit. Only set for 'passive-effect-loop'. */
+  effectOwners?: PassiveEffectFiberInfo[];
+  /** Boundaries that kept capturing errors. Only set for 'error-boundary-loop'. */
+  errorBoundaries?: ErrorBoundaryFiberInfo[];
+  /** setState calls recorded before the forced commit, oldest first. Present when instrumentSetState recorded any. */
+  setStateCalls?: SetStateCall[];
   timestamp: number;
 }
 
@@ -141,6 +320,47 @@ export type Report = FlushReport | LoopReport;
 export interface BreakOnLoopConfig {
   sync?: boolean;
   async?: boolean;
+  crossRoot?: boolean;
+  errorBoundary?: boolean;
+}
+
+export interface RootThresholds {
+  maxCommitsPerTask?: number;
+  maxCommitsPerWindow?: number;
+  windowMs?: number;
+}
+
+/**
+ * Called on a root's first commit, and again on its next commit after
+ * configure() changes any threshold. Return overrides for that root's thresholds.
+ */
+export type RootThresholdsResolver = (root: FiberRoot) => RootThresholds | null | undefined;
+
+// Overhead budget types
+
+/** Steps the detector takes, in order, when it exceeds its overhead budget. */
+export type DegradationLevel = 'full' | 'no-flush' | 'shallow-stacks' | 'loops-only';
+
+export interface OverheadStats {
+  /** Commits handled since install. */
+  commits: number;
+  /** All time spent in the observer, including callbacks. */
+  totalMs: number;
+  walkMs: number;
+  stackMs: number;
+  classifyMs: number;
+  callbackMs: number;
+  level: DegradationLevel;
+}
+
+export interface DegradationEvent {
+  type: 'degradation';
+  level: DegradationLevel;
+  previousLevel: DegradationLevel;
+  /** Observer time spent in the budget window that exceeded the budget. */
+  overheadMs: number;
+  budgetMs: number;
+  timestamp: number;
 }
 
 export interface InstallConfig {
@@ -151,6 +371,45 @@ export interface InstallConfig {
   maxCommitsPerTask?: number;
   maxCommitsPerWindow?: number;
   windowMs?: number;
+  maxCrossRootAlternations?: number;
+  maxErrorCommits?: number;
+  /**
+   * Wrap setState dispatchers found during the fiber walk to record the exact
+   * call site of each update.  Opt-in: each wrapped useState setter changes
+   * identity once, after the component's next render.
+   */
+  instrumentSetState?: boolean;
+  /**
+   * Time budget for walking the fiber tree of one commit.  When exceeded the
+   * snapshot is marked partial and detection works with what was collected.
+   */
+  walkBudgetMs?: number;
+  /**
+   * Observer time allowed per second.  Each time it is exceeded the detector
+   * steps down one DegradationLevel and calls onDegrade.
+   */
+  overheadBudgetMs?: number;
+  onDegrade?: (event: DegradationEvent) => void;
+  rootThresholds?: RootThresholdsResolver;
+  /**
+   * Frames that are never user code, on top of React, the scheduler and
+   * the observer, e.g. a wrapper library or state-management glue.
+   */
+  excludeFrames?: FrameMatcher[];
+  /** Frames that are always user code, even in node_modules.  Exclusion wins. */
+  includeFrames?: FrameMatcher[];
+  /**
+   * When set, only frames under these paths (or matching includeFrames) are
+   * user code, replacing the built-in list of internal packages.
+   */
+  firstPartyPaths?: (string | RegExp)[];
+  /**
+   * Wrap the methods of an existing DevTools hook in place instead of
+   * replacing it, for installs after React has loaded.  Default: attach
+   * when the existing hook already has renderers.  Only the first of
+   * several observers installed at once decides.
+   */
+  attach?: boolean;
 }
 
 export interface DetectorConfig {
@@ -161,16 +420,126 @@ export interface DetectorConfig {
   maxCommitsPerTask: number;
   maxCommitsPerWindow: number;
   windowMs: number;
+  maxCrossRootAlternations: number;
+  maxErrorCommits: number;
+  instrumentSetState: boolean;
+  walkBudgetMs: number | null;
+  overheadBudgetMs: number | null;
+  onDegrade: ((event: DegradationEvent) => void) | null;
+  rootThresholds: RootThresholdsResolver | null;
+  excludeFrames: FrameMatcher[];
+  includeFrames: FrameMatcher[];
+  firstPartyPaths: (string | RegExp)[] | null;
 }
 
+/**
+ * Options observer.configure() changes on a running observer.  Omitted
+ * options keep their value; null removes a callback or budget.
+ */
+export type RuntimeConfig = Partial<Pick<DetectorConfig,
+  | 'onFlush'
+  | 'onLoop'
+  | 'onDegrade'
+  | 'breakOnLoop'
+  | 'sampleRate'
+  | 'maxCommitsPerTask'
+  | 'maxCommitsPerWindow'
+  | 'windowMs'
+  | 'maxCrossRootAlternations'
+  | 'maxErrorCommits'
+  | 'walkBudgetMs'
+  | 'overheadBudgetMs'
+  | 'rootThresholds'
+>>;
+
 // Detector interface
 
+export type RootMode = 'legacy' | 'concurrent';
+
+/** What a detector knows about one root. */
+export interface RootStats {
+  /** Same id as the rootId of the root's reports. */
+  id: number;
+  /** Null when the root carries no tag. */
+  mode: RootMode | null;
+  /** Commits observed since the root was first seen. */
+  commitCount: number;
+  /** Loop reports raised for the root. */
+  loopCount: number;
+  /** Lanes frozen by breakOnLoop until the task ends. */
+  frozen: boolean;
+}
+
+export interface RootInfo extends RootStats {
+  root: FiberRoot;
+  rendererId: number;
+  /** rendererPackageName passed to inject(), e.g. 'react-dom'. */
+  rendererName: string | null;
+  rendererVersion: string | null;
+}
+
 export interface Detector {
-  handleCommit(root: FiberRoot): void;
+  /** react defaults to the React 18 layout until the renderer's version is known. */
+  handleCommit(root: FiberRoot, didError?: boolean, react?: ReactAdapter): void;
+  /** Start tracking a root that committed before the detector existed. */
+  addRoot(root: FiberRoot, react?: ReactAdapter): void;
+  /** Null for a root the detector has never seen. */
+  getRootStats(root: FiberRoot): RootStats | null;
   setBreakOnLoop(enabled: boolean | BreakOnLoopConfig): void;
+  /** Thresholds apply to each root from its next commit. */
+  configure(config: RuntimeConfig): void;
+  /** Ignore commits until resume(), keeping roots and their history. */
+  pause(): void;
+  resume(): void;
+  getOverhead(): OverheadStats;
   dispose(): void;
 }
 
+// React version adapter types
+
+/**
+ * Fiber tags, flag bits and lane semantics of one range of React versions,
+ * selected from the version a renderer passes to inject().
+ */
+export interface ReactAdapter {
+  version: string;
+  tags: {
+    FunctionComponent: number;
+    ClassComponent: number;
+    ContextProvider: number;
+    SuspenseComponent: number;
+    /** -1 when the version has no Offscreen fiber. */
+    OffscreenComponent: number;
+  };
+  flags: {
+    PerformedWork: number;
+    Update: number;
+    Passive: number;
+    LayoutMask: number;
+    DidCapture: number;
+    /** 0 when the version has no Visibility flag. */
+    Visibility: number;
+    SubtreeWorkMask: number;
+  };
+  hookEffects: {
+    /** 0 when effects whose deps are unchanged carry no tag at all. */
+    HasEffect: number;
+    Layout: number;
+    Passive: number;
+  };
+  flagsField: 'flags' | 'effectTag';
+  /** React 18+ bubbles flags into subtreeFlags, which lets idle subtrees be skipped. */
+  hasSubtreeFlags: boolean;
+  lanes: {
+    /** False for React 16 expiration times, where sync work is one exact value. */
+    usesLanes: boolean;
+    pendingField: 'pendingLanes' | 'firstPendingTime';
+    callbackPriorityField: 'callbackPriority' | 'callbackExpirationTime';
+    sync: number;
+    syncCallbackPriority: number;
+  };
+}
+
 // React DevTools hook types
 
 export interface ReactInternals {
@@ -178,9 +547,40 @@ export interface ReactInternals {
   rendererPackageName?: string;
 }
 
+/** What the DevTools backend attaches per renderer, as far as the hook calls it. */
+export interface RendererInterface {
+  handleCommitFiberRoot?(root: FiberRoot, priority: number): void;
+  handlePostCommitFiberRoot?(root: FiberRoot): void;
+  handleCommitFiberUnmount?(fiber: Fiber): void;
+  patchConsoleForStrictMode?(): void;
+  unpatchConsoleForStrictMode?(): void;
+}
+
+export type DevToolsHookListener = (data: unknown) => void;
+
+/**
+ * The `__REACT_DEVTOOLS_GLOBAL_HOOK__` surface used by React, react-refresh
+ * and the DevTools backend.
+ */
 export interface ReactDevToolsHook {
   supportsFiber: boolean;
+  /** Injected renderers by id. */
+  renderers: Map<number, ReactInternals>;
+  /** DevTools backend per renderer id, set by the backend when it connects. */
+  rendererInterfaces: Map<number, RendererInterface>;
+  listeners: Record<string, DevToolsHookListener[]>;
   inject(internals: ReactInternals): number;
+  /** Called by React DOM with a function whose source shows whether dead code elimination ran. */
+  checkDCE(fn: unknown): void;
+  /** on() that returns its own off(). */
+  sub(event: string, fn: DevToolsHookListener): () => void;
+  on(event: string, fn: DevToolsHookListener): void;
+  off(event: string, fn: DevToolsHookListener): void;
+  emit(event: string, data: unknown): void;
+  /** Mounted roots of a renderer. */
+  getFiberRoots(rendererId: number): Set<FiberRoot>;
+  /** Development builds only, before each render of a root; used by react-refresh. */
+  onScheduleFiberRoot(rendererId: number, root: FiberRoot, children: unknown): void;
   onCommitFiberRoot(
     id: number,
     root: FiberRoot,
@@ -189,6 +589,7 @@ export interface ReactDevToolsHook {
   ): void;
   onPostCommitFiberRoot(id: number, root: FiberRoot): void;
   onCommitFiberUnmount(id: number, fiber: Fiber): void;
+  setStrictMode(rendererId: number, isStrictMode: boolean): void;
 }
 
 // Global augmentation
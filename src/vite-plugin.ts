@@ -0,0 +1,39 @@
+import { injectComponentIds, shouldTransform, stripQuery } from './component-id';
+import type { ComponentIdOptions } from './component-id';
+
+export type { ComponentIdOptions } from './component-id';
+
+// The parts of Vite's Plugin interface this plugin uses — Vite is not a
+// dependency of this package.
+export interface ComponentIdVitePlugin {
+  name: string;
+  enforce: 'pre';
+  configResolved(config: { root: string }): void;
+  transform(code: string, id: string): { code: string; map: null } | null;
+}
+
+/**
+ * Vite plugin stamping components with `__componentId`.  Runs before other
+ * transforms so it sees the source as written, JSX and types included.
+ * ids are relative to Vite's root unless `root` is given.
+ */
+export function componentIds(options: ComponentIdOptions = {}): ComponentIdVitePlugin {
+  let root = options.root ?? process.cwd();
+
+  return {
+    name: 'react-flush-observer:component-ids',
+    enforce: 'pre',
+    configResolved(config) {
+      root = options.root ?? config.root;
+    },
+    transform(code, id) {
+      const fileName = stripQuery(id);
+      if (!shouldTransform(fileName, options)) {
+        return null;
+      }
+      const result = injectComponentIds(code, fileName, { ...options, root });
+      // Only appends lines, so the existing mappings stay valid
+      return result === null ? null : { code: result, map: null };
+    },
+  };
+}
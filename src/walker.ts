@@ -4,25 +4,26 @@ import type {
   FiberSnapshot,
   FiberInfo,
   DetailedFiberInfo,
+  PassiveEffectFiberInfo,
+  ErrorBoundaryFiberInfo,
+  ExternalStoreFiberInfo,
   SuspenseFiberInfo,
   UpdatesFiberInfo,
+  ContextProviderFiberInfo,
+  ReactContext,
   SourceInfo,
   Effect,
+  ClassLifecycleMethod,
+  ReactAdapter,
+  ReactComponentInfo,
 } from './types';
-import {
-  FunctionComponent,
-  ClassComponent,
-  SuspenseComponent,
-  OffscreenComponent,
-  Passive,
-  LayoutMask,
-  DidCapture,
-  Visibility,
-  HookHasEffect,
-  HookLayout,
-} from './constants';
-
-function getComponentName(fiber: Fiber): string | null {
+import { FunctionComponent, ClassComponent, ForwardRef, SimpleMemoComponent } from './constants';
+import { DEFAULT_REACT_ADAPTER, getFiberFlags, getPendingWork } from './react-version';
+import { findUnstableStoreHooks, findChangedHooks } from './hooks';
+import { getRenderReason, getProviderName } from './render-reason';
+import { parseUserFrame } from './stack-parser';
+
+export function getComponentName(fiber: Fiber): string | null {
   const type = fiber.type;
   if (!type) {
     return null;
@@ -34,7 +35,7 @@ function getComponentName(fiber: Fiber): string | null {
     return (type as { displayName?: string; name?: string }).displayName || type.name || null;
   }
   if (typeof type === 'object' && type !== null) {
-    return type.displayName || type.name || null;
+    return type.displayName || type.name || type.render?.displayName || type.render?.name || null;
   }
   return null;
 }
@@ -53,7 +54,7 @@ function getComponentId(fiber: Fiber): unknown {
 function readDebugSource(fiber: Fiber): SourceInfo | null {
   const source = fiber._debugSource;
   if (!source) {
-    return null;
+    return readDebugStack(fiber);
   }
   return {
     fileName: source.fileName || null,
@@ -62,32 +63,80 @@ function readDebugSource(fiber: Fiber): SourceInfo | null {
   };
 }
 
+/**
+ * React 19 drops _debugSource and keeps the stack of the JSX call that
+ * created the element instead.  Below the JSX runtime's own frames, its
+ * first user frame is the same location _debugSource pointed at.
+ */
+function readDebugStack(fiber: Fiber): SourceInfo | null {
+  const debugStack = fiber._debugStack;
+  if (!debugStack) {
+    return null;
+  }
+  try {
+    return parseUserFrame(typeof debugStack === 'string' ? debugStack : debugStack.stack ?? null);
+  } catch {
+    // Formatting the stack can run a user-installed prepareStackTrace
+    return null;
+  }
+}
+
+function isFiber(owner: Fiber | ReactComponentInfo): owner is Fiber {
+  return typeof (owner as Fiber).tag === 'number';
+}
+
+/**
+ * The owner that created a fiber's element.  In React 19 it is either a
+ * fiber or a Server Component entry; fibers rendered straight from a Server
+ * Component have no _debugOwner and list it, innermost last, in _debugInfo.
+ */
+function getDebugOwner(owner: Fiber | ReactComponentInfo): Fiber | ReactComponentInfo | null {
+  if (!isFiber(owner)) {
+    return owner.owner ?? null;
+  }
+  if (owner._debugOwner) {
+    return owner._debugOwner;
+  }
+  const debugInfo = owner._debugInfo;
+  if (!debugInfo) {
+    return null;
+  }
+  for (let i = debugInfo.length - 1; i >= 0; i--) {
+    const entry = debugInfo[i];
+    if (typeof entry.name === 'string') {
+      return entry as ReactComponentInfo;
+    }
+  }
+  return null;
+}
+
 function buildComponentStack(fiber: Fiber): string[] | null {
   const stack: string[] = [];
-  let owner = fiber._debugOwner;
+  let owner = getDebugOwner(fiber);
 
   while (owner) {
-    const name = getComponentName(owner);
+    const name = isFiber(owner) ? getComponentName(owner) : owner.name;
     if (name) {
       stack.push(name);
     }
-    owner = owner._debugOwner;
+    owner = getDebugOwner(owner);
   }
 
   return stack.length > 0 ? stack : null;
 }
 
-function readLayoutEffectSource(fiber: Fiber): string | null {
+function readEffectSource(fiber: Fiber, hookFlag: number, hasEffect: number): string | null {
   const queue = fiber.updateQueue;
   if (!queue?.lastEffect) {
     return null;
   }
 
   // Effects form a circular linked list.
-  // Only match effects with both HookLayout AND HookHasEffect — the latter
+  // Only match effects with both the hook flag AND HookHasEffect — the latter
   // indicates the effect needs to fire (deps changed or mount).  This filters
-  // out stale layout effects on fibers reused from a previous commit.
-  const needed = HookLayout | HookHasEffect;
+  // out stale effects on fibers reused from a previous commit.  Before 16.13
+  // there is no HasEffect bit; unchanged effects carry no phase bit instead.
+  const needed = hookFlag | hasEffect;
   const firstEffect = queue.lastEffect.next;
   let effect: Effect = firstEffect;
 
@@ -106,124 +155,457 @@ function readLayoutEffectSource(fiber: Fiber): string | null {
 }
 
 /**
- * Returns true if any bits in `mask` are newly set on this fiber
- * compared to its alternate (the previous committed version).
- * On mount (no alternate), all set bits are considered new.
+ * Class components have no effect list — their layout-phase work is
+ * componentDidMount (first commit) or componentDidUpdate (later commits),
+ * read off the instance in fiber.stateNode.  isUpdate is null when the walk
+ * can't tell; whichever method the class defines is read, update first.
+ */
+function readClassLifecycle(
+  fiber: Fiber,
+  isUpdate: boolean | null
+): { method: ClassLifecycleMethod; source: string | null } | null {
+  const instance = fiber.stateNode as Partial<Record<ClassLifecycleMethod, unknown>> | null | undefined;
+  if (!instance) {
+    return null;
+  }
+  const method: ClassLifecycleMethod = (isUpdate ?? typeof instance.componentDidUpdate === 'function')
+    ? 'componentDidUpdate'
+    : 'componentDidMount';
+  const lifecycle = instance[method];
+  if (typeof lifecycle !== 'function') {
+    return null;
+  }
+  try {
+    return { method, source: lifecycle.toString() };
+  } catch {
+    return { method, source: null };
+  }
+}
+
+/**
+ * Returns true if any bits in `mask` are newly set on this fiber compared to
+ * `previous`, its version in the previous commit.  On mount (no previous),
+ * all set bits are considered new.
  */
-function hasNewFlags(fiber: Fiber, mask: number): boolean {
-  const current = fiber.flags & mask;
+function hasNewFlags(fiber: Fiber, previousFiber: Fiber | null, mask: number, react: ReactAdapter): boolean {
+  const current = getFiberFlags(fiber, react) & mask;
   if (current === 0) return false;
-  if (!fiber.alternate) return true;
-  const previous = fiber.alternate.flags & mask;
+  if (!previousFiber) return true;
+  const previous = getFiberFlags(previousFiber, react) & mask;
   return (current & ~previous) !== 0;
 }
 
+// Fibers that render a function and keep its hooks in memoizedState
+export function isFunctionComponentFiber(fiber: Fiber): boolean {
+  return fiber.tag === FunctionComponent || fiber.tag === ForwardRef || fiber.tag === SimpleMemoComponent;
+}
+
 function isComponentFiber(fiber: Fiber): boolean {
-  return fiber.tag === FunctionComponent || fiber.tag === ClassComponent;
+  return isFunctionComponentFiber(fiber) || fiber.tag === ClassComponent;
+}
+
+function findFirstComponentName(fiber: Fiber | null): string | null {
+  let node = fiber;
+  while (node) {
+    if (isComponentFiber(node)) {
+      return getComponentName(node);
+    }
+    node = node.child;
+  }
+  return null;
+}
+
+function isShallowEqual(a: unknown, b: unknown): boolean {
+  if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
 }
 
-function walkFiber(
+// React 18 Provider types wrap the context in _context; in React 19 the
+// context itself is the Provider type.
+function getProvidedContext(fiber: Fiber): ReactContext | null {
+  const type = fiber.type;
+  if (typeof type !== 'object' || type === null) return null;
+  return type._context ?? type;
+}
+
+/**
+ * A Provider value that changed identity while staying shallow-equal —
+ * typically `value={{ user, setUser }}` created inline — re-renders every
+ * consumer for nothing.
+ */
+function readUnstableProviderValue(fiber: Fiber): { context: ReactContext; value: unknown } | null {
+  const alternate = fiber.alternate;
+  if (!alternate) return null;
+  const value = (fiber.memoizedProps as { value?: unknown } | null | undefined)?.value;
+  const previousValue = (alternate.memoizedProps as { value?: unknown } | null | undefined)?.value;
+  if (Object.is(value, previousValue) || !isShallowEqual(value, previousValue)) {
+    return null;
+  }
+  const context = getProvidedContext(fiber);
+  if (!context) return null;
+  return { context, value };
+}
+
+/** An unstable Provider found earlier in the walk, and the consumers counted so far. */
+interface UnstableProvider {
+  context: ReactContext;
+  value: unknown;
+  info: ContextProviderFiberInfo;
+}
+
+/**
+ * Count the fiber as a consumer of each unstable Provider whose value it
+ * read.  The value is a fresh object, so only consumers below that Provider
+ * that re-rendered with it hold that exact reference in their dependencies.
+ */
+function countContextConsumer(fiber: Fiber, providers: UnstableProvider[]): void {
+  let dependency = fiber.dependencies?.firstContext ?? null;
+  while (dependency) {
+    for (const provider of providers) {
+      if (dependency.context === provider.context && Object.is(dependency.memoizedValue, provider.value)) {
+        provider.info.consumerCount++;
+      }
+    }
+    dependency = dependency.next;
+  }
+}
+
+// Paths keep the innermost components — those locate a suspect, the app
+// shell above them rarely does
+const MAX_COMPONENT_PATH_LENGTH = 8;
+
+interface ComponentPath {
+  /** Up to MAX_COMPONENT_PATH_LENGTH + 1 names, root first — one extra marks truncation. */
+  names: string[];
+  formatted: string;
+}
+
+/** Component paths of named component fibers, for one walk. */
+type ComponentPathCache = Map<Fiber, ComponentPath>;
+
+/** State shared by the fibers of one walk. */
+interface WalkState {
+  // See WalkOptions.earlierCommit
+  earlierCommit: boolean;
+  paths: ComponentPathCache;
+  // Pre-order: a Provider is found before the consumers below it
+  unstableProviders: UnstableProvider[];
+}
+
+function formatComponentPath(names: string[]): string {
+  return names.length > MAX_COMPONENT_PATH_LENGTH
+    ? `… > ${names.slice(1).join(' > ')}`
+    : names.join(' > ');
+}
+
+/**
+ * Named component ancestors of a fiber, root first, e.g. "App > Layout >
+ * Sidebar" — it ends at ownerName.  Built from the fiber.return chain, which
+ * unlike _debugOwner exists in production builds.  The walk visits
+ * ancestors first, so the climb usually stops at a cached component a few
+ * host fibers up.
+ */
+function getComponentPath(fiber: Fiber, cache: ComponentPathCache): string | null {
+  const uncached: Fiber[] = [];
+  let path: ComponentPath | null = null;
+  for (let node = fiber.return ?? null; node; node = node.return ?? null) {
+    if (!isComponentFiber(node) || !getComponentName(node)) {
+      continue;
+    }
+    path = cache.get(node) ?? null;
+    if (path) {
+      break;
+    }
+    uncached.push(node);
+  }
+
+  for (let i = uncached.length - 1; i >= 0; i--) {
+    const names = [...(path?.names ?? []), getComponentName(uncached[i])!].slice(-(MAX_COMPONENT_PATH_LENGTH + 1));
+    path = { names, formatted: formatComponentPath(names) };
+    cache.set(uncached[i], path);
+  }
+  return path?.formatted ?? null;
+}
+
+/** Called for every component fiber visited during a snapshot walk. */
+export type ComponentVisitor = (fiber: Fiber) => void;
+
+export interface WalkOptions {
+  visit?: ComponentVisitor;
+  /** Stop walking after this many ms and mark the snapshot partial. */
+  budgetMs?: number | null;
+  /** Fiber layout of the renderer that committed the tree. */
+  react?: ReactAdapter;
+  /**
+   * The tree is an earlier commit's, walked after a newer one: its fibers'
+   * alternates now hold the newer commit, not the one before, so nothing
+   * that compares against them (state and hook changes, render reasons,
+   * newly set flags, store and Provider values) is recorded.
+   */
+  earlierCommit?: boolean;
+}
+
+// performance.now() per fiber would cost more than the checks it guards
+const BUDGET_CHECK_INTERVAL = 100;
+
+/**
+ * A subtree can be skipped when nothing in it rendered or carries a flag we
+ * read.  Only for updates — on mount (no alternate) the whole tree is new —
+ * and only from React 18, which bubbles flags into subtreeFlags.
+ */
+function canSkipChildren(fiber: Fiber, react: ReactAdapter): boolean {
+  return react.hasSubtreeFlags
+    && fiber.alternate != null
+    && fiber.childLanes === 0
+    && (fiber.subtreeFlags & react.flags.SubtreeWorkMask) === 0;
+}
+
+/** Record a single fiber into the snapshot; returns the nearest component for its children. */
+function inspectFiber(
   fiber: Fiber,
   result: FiberSnapshot,
-  nearestComponent: Fiber | null
-): void {
+  nearestComponent: Fiber | null,
+  visit: ComponentVisitor | undefined,
+  react: ReactAdapter,
+  walk: WalkState
+): Fiber | null {
+  const { tags, flags, hookEffects } = react;
+  const fiberFlags = getFiberFlags(fiber, react);
   const isComponent = isComponentFiber(fiber);
+  if (isComponent) {
+    visit?.(fiber);
+  }
   const currentComponent = isComponent ? fiber : nearestComponent;
   const ownerName = nearestComponent ? getComponentName(nearestComponent) : null;
 
+  // The fiber as of the previous commit; unknown for an earlier commit's tree
+  const previousFiber = walk.earlierCommit ? null : fiber.alternate ?? null;
+
+  // Component fibers whose memoizedState changed vs. their alternate
+  // re-rendered with new state.
+  const stateChanged = isComponent
+    && previousFiber != null
+    && fiber.memoizedState !== previousFiber.memoizedState;
+  // Class components keep a state object, not a hook list
+  const changedHooks = stateChanged && fiber.tag !== tags.ClassComponent ? findChangedHooks(fiber) : [];
+
+  // Copied with Object.assign rather than spread, which V8 runs an order of
+  // magnitude slower here, on every matching fiber of every walk
   const baseInfo: FiberInfo = {
     componentId: getComponentId(fiber),
     tag: fiber.tag,
     type: fiber.type,
     ownerName,
+    componentPath: getComponentPath(fiber, walk.paths),
+    reason: isComponent && !walk.earlierCommit ? getRenderReason(fiber, changedHooks) : null,
   };
 
   // Check for passive effects (only the fiber itself, not subtree)
-  if ((fiber.flags & Passive) !== 0) {
-    result.withPassiveEffects.push(baseInfo);
+  if ((fiberFlags & flags.Passive) !== 0) {
+    const passiveInfo: PassiveEffectFiberInfo = Object.assign({}, baseInfo, {
+      componentName: isComponent ? getComponentName(fiber) : null,
+      effectSource: isComponent ? readEffectSource(fiber, hookEffects.Passive, hookEffects.HasEffect) : null,
+    });
+    result.withPassiveEffects.push(passiveInfo);
   }
 
   // Check for layout effects — only on component fibers (function/class).
   // Host elements (DOM nodes) get LayoutMask for content updates which are
   // not layout effects and would pollute the suspects list.
-  if ((fiber.flags & LayoutMask) !== 0 && isComponent) {
-    const detailedInfo: DetailedFiberInfo = {
-      ...baseInfo,
+  if ((fiberFlags & flags.LayoutMask) !== 0 && isComponent) {
+    const lifecycle = fiber.tag === tags.ClassComponent
+      ? readClassLifecycle(fiber, walk.earlierCommit ? null : previousFiber !== null)
+      : null;
+    const detailedInfo: DetailedFiberInfo = Object.assign({}, baseInfo, {
       source: readDebugSource(fiber),
       componentStack: buildComponentStack(fiber),
-      effectSource: readLayoutEffectSource(fiber),
-    };
+      effectSource: lifecycle ? lifecycle.source : readEffectSource(fiber, hookEffects.Layout, hookEffects.HasEffect),
+      lifecycleMethod: lifecycle?.method ?? null,
+    });
     result.withLayoutEffects.push(detailedInfo);
   }
 
   // Check for Suspense boundaries — only NEWLY captured (not stale from
   // a previous commit where the lazy component already resolved).
-  if (fiber.tag === SuspenseComponent && hasNewFlags(fiber, DidCapture)) {
+  if (fiber.tag === tags.SuspenseComponent && hasNewFlags(fiber, previousFiber, flags.DidCapture, react)) {
     // Try to get the lazy component name from the child
     let resolvedName: string | null = null;
     if (fiber.child) {
       resolvedName = getComponentName(fiber.child);
     }
-    const suspenseInfo: SuspenseFiberInfo = {
-      ...baseInfo,
+    const suspenseInfo: SuspenseFiberInfo = Object.assign({}, baseInfo, {
       resolvedName,
-    };
+    });
     result.withSuspense.push(suspenseInfo);
   }
 
+  // Check for error boundaries — class components that NEWLY captured an
+  // error in this commit (DidCapture is left set on reused fibers).
+  if (fiber.tag === tags.ClassComponent && hasNewFlags(fiber, previousFiber, flags.DidCapture, react)) {
+    const boundaryInfo: ErrorBoundaryFiberInfo = Object.assign({}, baseInfo, {
+      componentName: getComponentName(fiber),
+      throwingComponent: findFirstComponentName(fiber.child),
+    });
+    result.withErrorBoundaries.push(boundaryInfo);
+  }
+
   // Check for Offscreen with visibility changes — only newly set
-  if (fiber.tag === OffscreenComponent && hasNewFlags(fiber, Visibility)) {
-    const suspenseInfo: SuspenseFiberInfo = {
-      ...baseInfo,
+  if (fiber.tag === tags.OffscreenComponent && hasNewFlags(fiber, previousFiber, flags.Visibility, react)) {
+    const suspenseInfo: SuspenseFiberInfo = Object.assign({}, baseInfo, {
       resolvedName: null,
-    };
+    });
     result.withSuspense.push(suspenseInfo);
   }
 
   // Check for pending updates or re-rendered components.
   // At commit time, lanes for the committed work are already cleared, so
-  // also detect component fibers whose memoizedState changed vs. their
-  // alternate — this captures components that re-rendered with new state
-  // (e.g., setState called from an observer callback).
-  const hasLanes = fiber.lanes !== 0 || fiber.childLanes !== 0;
-  const stateChanged = isComponent
-    && fiber.alternate != null
-    && fiber.memoizedState !== fiber.alternate.memoizedState;
-  if (hasLanes || stateChanged) {
-    const updatesInfo: UpdatesFiberInfo = {
-      ...baseInfo,
-      lanes: fiber.lanes | fiber.childLanes,
-    };
+  // also detect components that re-rendered with new state (e.g., setState
+  // called from an observer callback).
+  const pendingWork = getPendingWork(fiber, react);
+  if (pendingWork !== 0 || stateChanged) {
+    const updatesInfo: UpdatesFiberInfo = Object.assign({}, baseInfo, {
+      lanes: pendingWork,
+      componentName: isComponent ? getComponentName(fiber) : null,
+      changedHooks,
+    });
     result.withUpdates.push(updatesInfo);
   }
 
-  // Traverse children
-  if (fiber.child) {
-    walkFiber(fiber.child, result, currentComponent);
+  inspectContext(fiber, nearestComponent, react, walk);
+
+  // Check for useSyncExternalStore hooks with an uncached getSnapshot — only
+  // function components keep a hook list in memoizedState.  An earlier
+  // commit's fiber can't show changed state, but its flags still show that
+  // it rendered.
+  const rerendered = walk.earlierCommit
+    ? (getFiberFlags(fiber, react) & flags.PerformedWork) !== 0
+    : stateChanged;
+  if (rerendered && isFunctionComponentFiber(fiber)) {
+    for (const hookIndex of findUnstableStoreHooks(fiber, !walk.earlierCommit)) {
+      const storeInfo: ExternalStoreFiberInfo = Object.assign({}, baseInfo, {
+        componentName: getComponentName(fiber),
+        hookIndex,
+      });
+      result.withUnstableStoreSnapshots.push(storeInfo);
+    }
   }
 
-  // Traverse siblings
-  if (fiber.sibling) {
-    walkFiber(fiber.sibling, result, nearestComponent);
+  return currentComponent;
+}
+
+/**
+ * Check for Providers re-rendered with a new but equal value that forced
+ * their consumers to re-render; reported once the walk has counted them.
+ */
+function inspectContext(fiber: Fiber, nearestComponent: Fiber | null, react: ReactAdapter, walk: WalkState): void {
+  if (walk.earlierCommit) return;
+  if (walk.unstableProviders.length > 0) {
+    countContextConsumer(fiber, walk.unstableProviders);
+  }
+  if (fiber.tag !== react.tags.ContextProvider) return;
+  const unstable = readUnstableProviderValue(fiber);
+  if (!unstable) return;
+  const info: ContextProviderFiberInfo = {
+    componentId: getComponentId(fiber),
+    tag: fiber.tag,
+    type: fiber.type,
+    ownerName: nearestComponent ? getComponentName(nearestComponent) : null,
+    componentPath: getComponentPath(fiber, walk.paths),
+    reason: null,
+    providerName: getProviderName(unstable.context),
+    consumerCount: 0,
+  };
+  walk.unstableProviders.push({ context: unstable.context, value: unstable.value, info });
+}
+
+function getUnstableContextValues(walk: WalkState): ContextProviderFiberInfo[] {
+  return walk.unstableProviders.filter((provider) => provider.info.consumerCount > 0).map((provider) => provider.info);
+}
+
+/** Inspects one fiber; returns the nearest component for its children. */
+type FiberInspector = (fiber: Fiber, nearestComponent: Fiber | null) => Fiber | null;
+
+/**
+ * Depth-first, pre-order walk with an explicit stack — long sibling lists
+ * and deep trees would overflow the call stack if walked recursively.
+ */
+function walkTree(rootFiber: Fiber, options: WalkOptions, inspect: FiberInspector): boolean {
+  const { budgetMs = null, react = DEFAULT_REACT_ADAPTER } = options;
+  const deadline = budgetMs != null ? performance.now() + budgetMs : Infinity;
+  // Parallel stacks: the fiber to inspect and its nearest component ancestor
+  const fibers: Fiber[] = [rootFiber];
+  const owners: (Fiber | null)[] = [null];
+  let inspected = 0;
+
+  while (fibers.length > 0) {
+    if (++inspected % BUDGET_CHECK_INTERVAL === 0 && performance.now() > deadline) {
+      return false;
+    }
+    const fiber = fibers.pop()!;
+    const nearestComponent = owners.pop()!;
+    const currentComponent = inspect(fiber, nearestComponent);
+
+    // Sibling pushed first so the child subtree is inspected before it
+    if (fiber.sibling) {
+      fibers.push(fiber.sibling);
+      owners.push(nearestComponent);
+    }
+    if (fiber.child && !canSkipChildren(fiber, react)) {
+      fibers.push(fiber.child);
+      owners.push(currentComponent);
+    }
   }
+  return true;
 }
 
-export function snapshotFromFiber(rootFiber: Fiber): FiberSnapshot {
+export function snapshotFromFiber(rootFiber: Fiber, options: WalkOptions = {}): FiberSnapshot {
   const result: FiberSnapshot = {
     withPassiveEffects: [],
     withLayoutEffects: [],
     withSuspense: [],
     withUpdates: [],
+    withErrorBoundaries: [],
+    withUnstableStoreSnapshots: [],
+    withUnstableContextValues: [],
+    partial: false,
   };
 
-  walkFiber(rootFiber, result, null);
+  const { visit, react = DEFAULT_REACT_ADAPTER, earlierCommit = false } = options;
+  const walk: WalkState = { earlierCommit, paths: new Map(), unstableProviders: [] };
+  result.partial = !walkTree(rootFiber, options, (fiber, nearestComponent) =>
+    inspectFiber(fiber, result, nearestComponent, visit, react, walk));
+  result.withUnstableContextValues = getUnstableContextValues(walk);
   return result;
 }
 
-export function snapshotCommitFibers(root: FiberRoot): FiberSnapshot {
+/**
+ * Only the unstable Provider values of a commit, for commits that skip the
+ * snapshot.  Visits the same fibers as a snapshot walk but records nothing
+ * else, so most cost only the pruned traversal.
+ */
+export function findUnstableContextValues(root: FiberRoot, options: WalkOptions = {}): ContextProviderFiberInfo[] {
+  const { react = DEFAULT_REACT_ADAPTER } = options;
+  const walk: WalkState = { earlierCommit: false, paths: new Map(), unstableProviders: [] };
+  if (root.current) {
+    walkTree(root.current, options, (fiber, nearestComponent) => {
+      inspectContext(fiber, nearestComponent, react, walk);
+      return isComponentFiber(fiber) ? fiber : nearestComponent;
+    });
+  }
+  return getUnstableContextValues(walk);
+}
+
+export function snapshotCommitFibers(root: FiberRoot, options: WalkOptions = {}): FiberSnapshot {
   const rootFiber = root.current;
   if (rootFiber) {
-    return snapshotFromFiber(rootFiber);
+    return snapshotFromFiber(rootFiber, options);
   }
 
   return {
@@ -231,5 +613,9 @@ export function snapshotCommitFibers(root: FiberRoot): FiberSnapshot {
     withLayoutEffects: [],
     withSuspense: [],
     withUpdates: [],
+    withErrorBoundaries: [],
+    withUnstableStoreSnapshots: [],
+    withUnstableContextValues: [],
+    partial: false,
   };
 }
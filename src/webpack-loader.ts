@@ -0,0 +1,23 @@
+import { injectComponentIds, shouldTransform } from './component-id';
+import type { ComponentIdOptions } from './component-id';
+
+// The parts of webpack's LoaderContext this loader uses — webpack is not a
+// dependency of this package.
+export interface ComponentIdLoaderContext {
+  resourcePath: string;
+  rootContext: string;
+  getOptions?(): ComponentIdOptions;
+}
+
+/**
+ * webpack loader stamping components with `__componentId`.  List it last in
+ * `use` so it runs first, on the source as written.  ids are relative to
+ * webpack's context unless the `root` option is given.
+ */
+export default function componentIdLoader(this: ComponentIdLoaderContext, source: string): string {
+  const options = this.getOptions?.() ?? {};
+  if (!shouldTransform(this.resourcePath, options)) {
+    return source;
+  }
+  return injectComponentIds(source, this.resourcePath, { root: this.rootContext, ...options }) ?? source;
+}